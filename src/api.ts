@@ -0,0 +1,280 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import * as HTTP from 'http';
+
+import { Target } from './client';
+import { FilterSyntaxError, compileFilter } from './filter';
+import { GameKeys } from './gamespy';
+import { ParsedServerResult, isResponse } from './handler';
+import { PROMETHEUS_CONTENT_TYPE, QueryMetrics, renderMetrics } from './metrics';
+import { ServerMonitor, ServerMonitorOpts } from './monitor';
+import { ServerAddress } from './network';
+import { PLAYER_MATCH_MODES, PlayerMatchMode, findPlayers, listPlayers } from './players';
+import { addressKey } from './transport';
+import { LIVE_UPDATES_PATH, LiveUpdateServer } from './websocket';
+
+/** The port the API listens on by default. */
+export const DEFAULT_API_PORT = 8080;
+
+export type ApiServerOpts = ServerMonitorOpts;
+
+/** A polled server, as the API reports it. */
+export type CachedServer = ParsedServerResult & {
+	/** When the server last responded (ISO 8601), or `null` if it never has. */
+	lastSeen: string | null;
+}
+
+/**
+ * Handles a request whose path matched a route. Returns the fields of the
+ * response body.
+ */
+type RouteHandler = (params: string[], query: URLSearchParams) => object;
+
+/** Thrown by route handlers to respond with an error status. */
+class HttpError extends Error {
+	constructor(readonly status: number, message: string) {
+		super(message);
+		this.name = 'HttpError';
+	}
+}
+
+/** Decodes a path parameter, rejecting malformed escapes as a bad request. */
+function decodeParam(param: string): string {
+	try {
+		return decodeURIComponent(param);
+	} catch (err) {
+		if (err instanceof URIError) {
+			throw new HttpError(400, `Malformed path parameter: ${param}`);
+		}
+		throw err;
+	}
+}
+
+/**
+ * An HTTP server exposing Halo server status as a JSON REST API.
+ *
+ * Targets are polled in the background (see {@link ServerMonitor}), and every
+ * request is answered from the cached results of the most recent poll. Every
+ * response includes an `updated` timestamp saying when that poll finished.
+ *
+ * Endpoints:
+ * - `GET /servers`: Every server. Accepts a `filter` expression
+ *   (see {@link compileFilter}).
+ * - `GET /servers/:address/:port`: A single server.
+ * - `GET /masters/:game`: Every server from the given game's master list
+ *   (e.g. `/masters/halom`).
+ * - `GET /players?name=`: Every player whose name contains `name`. Pass
+ *   `match` to search like {@link findPlayers} instead.
+ * - `GET /metrics`: Server and query health metrics in the Prometheus text
+ *   format (see {@link renderMetrics}). Unlike the other endpoints, this one
+ *   answers before the first poll finishes.
+ *
+ * Clients can also open a WebSocket on {@link LIVE_UPDATES_PATH} to have
+ * changes pushed to them as they're found (see {@link LiveUpdateServer}).
+ */
+export class ApiServer {
+	/** The monitor polling our targets. */
+	readonly monitor: ServerMonitor;
+	/** Pushes changes to WebSocket clients. */
+	readonly live: LiveUpdateServer;
+	/** Health metrics for the monitor's queries. */
+	readonly metrics: QueryMetrics;
+
+	private server: HTTP.Server;
+	private targets: Target[];
+	private results: ParsedServerResult[] = [];
+	private lastSeen = new Map<string, string>();
+	private lastPoll: string | null = null;
+	private routes: [RegExp, RouteHandler][] = [
+		[/^\/servers$/, (_, query) => this.getServers(query)],
+		[/^\/servers\/([^/]+)\/(\d+)$/, ([address, port]) => this.getServer(address, port)],
+		[/^\/masters\/([^/]+)$/, ([game]) => this.getMaster(game)],
+		[/^\/players$/, (_, query) => this.getPlayers(query)],
+	];
+
+	constructor(targets: Target[], opts?: ApiServerOpts) {
+		this.targets = [...targets];
+		this.metrics = opts?.metrics ?? new QueryMetrics();
+		this.monitor = new ServerMonitor(targets, { ...opts, metrics: this.metrics });
+		this.monitor.on('poll', results => this.onPoll(results));
+		// A failed poll just leaves the previous results in place.
+		this.monitor.on('error', () => {});
+
+		this.server = HTTP.createServer((req, res) => this.onRequest(req, res));
+		// Created after our own poll listener, so it sees the updated cache.
+		this.live = new LiveUpdateServer(this.server, this);
+	}
+
+	/** When the most recent poll finished (ISO 8601), or `null` before the first one. */
+	get updated(): string | null {
+		return this.lastPoll;
+	}
+
+	/** The address this server is listening on. */
+	get address(): ServerAddress {
+		const info = this.server.address();
+		if (!info || typeof info === 'string') {
+			throw new Error('API server is not listening');
+		}
+		return { address: info.address, port: info.port };
+	}
+
+	/**
+	 * Starts polling and listening for requests.
+	 * By default, this listens on {@link DEFAULT_API_PORT} on every interface.
+	 */
+	async listen(port = DEFAULT_API_PORT, host?: string): Promise<ServerAddress> {
+		await new Promise<void>((resolve, reject) => {
+			this.server.once('error', reject);
+			this.server.listen(port, host, () => {
+				this.server.removeListener('error', reject);
+				resolve();
+			});
+		});
+		this.monitor.start();
+		return this.address;
+	}
+
+	/** Stops polling, and stops listening once open requests finish. */
+	async close(): Promise<void> {
+		this.monitor.stop();
+		this.live.close();
+		this.server.closeIdleConnections();
+		return new Promise((resolve, reject) => {
+			this.server.close(err => err ? reject(err) : resolve());
+		});
+	}
+
+	/** Caches the results of a poll. */
+	private onPoll(results: ParsedServerResult[]): void {
+		const now = new Date().toISOString();
+		results
+			.filter(isResponse)
+			.forEach(result => this.lastSeen.set(addressKey(result), now));
+
+		this.results = results;
+		this.lastPoll = now;
+	}
+
+	private onRequest(req: HTTP.IncomingMessage, res: HTTP.ServerResponse): void {
+		const url = new URL(req.url ?? '/', 'http://localhost');
+		if (url.pathname === '/metrics' && (req.method === 'GET' || req.method === 'HEAD')) {
+			this.sendMetrics(req, res);
+			return;
+		}
+
+		let status = 200;
+		let body: unknown;
+
+		try {
+			if (req.method !== 'GET' && req.method !== 'HEAD') {
+				throw new HttpError(405, `Method ${req.method} not allowed`);
+			}
+
+			const route = this.routes.find(([pattern]) => pattern.test(url.pathname));
+			if (!route) {
+				throw new HttpError(404, `No such endpoint: ${url.pathname}`);
+			}
+			if (this.lastPoll === null) {
+				res.setHeader('Retry-After', '1');
+				throw new HttpError(503, 'Servers have not been polled yet');
+			}
+
+			const [pattern, handler] = route;
+			const params = pattern.exec(url.pathname)!.slice(1).map(decodeParam);
+			body = { updated: this.lastPoll, ...handler(params, url.searchParams) };
+		} catch (err) {
+			status = err instanceof HttpError ? err.status : 500;
+			body = { error: (err as Error).message };
+		}
+
+		const json = JSON.stringify(body);
+		res.writeHead(status, {
+			'Content-Type': 'application/json; charset=utf-8',
+			'Content-Length': Buffer.byteLength(json),
+			// These are meant to be fetched from web pages.
+			'Access-Control-Allow-Origin': '*',
+		});
+		res.end(req.method === 'HEAD' ? undefined : json);
+	}
+
+	private sendMetrics(req: HTTP.IncomingMessage, res: HTTP.ServerResponse): void {
+		const text = renderMetrics(this.results, this.metrics);
+		res.writeHead(200, {
+			'Content-Type': PROMETHEUS_CONTENT_TYPE,
+			'Content-Length': Buffer.byteLength(text),
+		});
+		res.end(req.method === 'HEAD' ? undefined : text);
+	}
+
+	private getServers(query: URLSearchParams): object {
+		let servers = this.servers();
+
+		const filter = query.get('filter');
+		if (filter) {
+			try {
+				const predicate = compileFilter(filter);
+				servers = servers.filter(server => isResponse(server) && predicate(server.data));
+			} catch (err) {
+				if (err instanceof FilterSyntaxError) {
+					throw new HttpError(400, err.message);
+				}
+				throw err;
+			}
+		}
+
+		return { servers };
+	}
+
+	private getServer(address: string, port: string): object {
+		const key = addressKey({ address, port: Number.parseInt(port) });
+		const server = this.servers().find(server => addressKey(server) === key);
+		if (!server) {
+			throw new HttpError(404, `Not polling server ${key}`);
+		}
+		return { server };
+	}
+
+	private getMaster(game: string): object {
+		if (!Object.keys(GameKeys).includes(game)) {
+			throw new HttpError(404, `Unknown game: ${game}`);
+		}
+		if (!this.targets.includes(game as keyof typeof GameKeys)) {
+			throw new HttpError(404, `Not polling the ${game} master server`);
+		}
+
+		const servers = this.servers().filter(server => server.game === game);
+		return { game, servers };
+	}
+
+	private getPlayers(query: URLSearchParams): object {
+		const name = query.get('name') ?? '';
+		const match = query.get('match');
+
+		if (match !== null) {
+			if (!PLAYER_MATCH_MODES.includes(match as PlayerMatchMode)) {
+				throw new HttpError(400, `Unknown match mode: ${match}`);
+			}
+			return { players: findPlayers(this.results, name, { match: match as PlayerMatchMode }) };
+		}
+
+		const players = listPlayers(this.results)
+			.filter(player => player.name.toLowerCase().includes(name.toLowerCase()));
+
+		return { players };
+	}
+
+	/** The results of the most recent poll, with when each server was last seen. */
+	servers(): CachedServer[] {
+		return this.results.map(result => ({
+			...result,
+			lastSeen: this.lastSeen.get(addressKey(result)) ?? null,
+		}));
+	}
+}
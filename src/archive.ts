@@ -0,0 +1,249 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import {
+	ParsedServerResult,
+	Server,
+	ServerResult,
+	isResponse,
+	parseServerResult,
+} from './handler';
+import { MonitorEvent, diffServerInfo } from './monitor';
+import { ServerAddress } from './network';
+import { InfoValue, ServerInfo } from './response';
+import { addressKey } from './transport';
+
+/** Snapshot files in an archive end with this. */
+const SNAPSHOT_EXTENSION = '.json';
+
+/**
+ * Info fields that aren't settings. Most are covered by {@link diffServerInfo}
+ * events, and the rest change on every query.
+ */
+const NON_SETTING_KEYS = [
+	'hostname', 'mapname', 'gametype', 'numplayers', 'players', 'teams', 'queryid', 'final',
+];
+/** Raw flag fields. These are compared by their `*_labels` instead. */
+const FLAG_KEYS = ['player_flags', 'vehicle_flags', 'game_flags'];
+
+/**
+ * The results of a single query, as stored in an archive. Results are kept
+ * exactly as the servers sent them (raw response strings included), and are
+ * only parsed when read back.
+ */
+export interface Snapshot {
+	/** When the query finished (ISO 8601). */
+	time: string;
+	results: ServerResult[];
+}
+
+/** A server setting that differs between two snapshots. */
+export interface SettingChange {
+	key: string;
+	from: InfoValue;
+	to: InfoValue;
+}
+
+/** How a server changed between two snapshots. */
+export interface ServerDiff {
+	server: Server;
+	/** Player, map, score and online status changes. */
+	events: MonitorEvent[];
+	/**
+	 * Every other info field that changed (e.g. `maxplayers`, `password`, or
+	 * `game_flags_labels.game_type`).
+	 */
+	settings: SettingChange[];
+}
+
+/** Everything that changed between two snapshots. */
+export interface SnapshotDiff {
+	from: string;
+	to: string;
+	/** Servers in the second snapshot, but not the first. */
+	added: Server[];
+	/** Servers in the first snapshot, but not the second. */
+	removed: Server[];
+	/** Servers in both snapshots that changed. Unchanged servers are left out. */
+	changed: ServerDiff[];
+}
+
+/** A server's state as of one snapshot. */
+export interface HistoryEntry {
+	time: string;
+	result: ParsedServerResult;
+}
+
+/**
+ * Saves query results to an archive directory as a new snapshot file, named
+ * after the time. The directory is created if it doesn't exist. Existing
+ * snapshots are never overwritten. If one was already saved at the same time,
+ * the new file gets a numbered suffix.
+ *
+ * @returns The path of the new snapshot file.
+ */
+export async function saveSnapshot(
+	dir: string,
+	results: ServerResult[],
+	time = new Date(),
+): Promise<string> {
+	const snapshot: Snapshot = { time: time.toISOString(), results };
+	// Colons aren't allowed in file names everywhere.
+	const name = snapshot.time.replace(/:/g, '-');
+	const json = JSON.stringify(snapshot) + '\n';
+
+	await fs.mkdir(dir, { recursive: true });
+	for (let attempt = 0; ; attempt++) {
+		const file = path.join(dir, name + (attempt > 0 ? `-${attempt}` : '') + SNAPSHOT_EXTENSION);
+		try {
+			await fs.writeFile(file, json, { flag: 'wx' });
+			return file;
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+		}
+	}
+}
+
+/** Reads a snapshot file written by {@link saveSnapshot}. */
+export async function loadSnapshot(file: string): Promise<Snapshot> {
+	let snapshot: Snapshot;
+	try {
+		snapshot = JSON.parse(await fs.readFile(file, 'utf8'));
+	} catch (err) {
+		throw new Error(`Failed to read snapshot ${file}: ${(err as Error).message}`);
+	}
+
+	if (typeof snapshot?.time !== 'string' || !Array.isArray(snapshot.results)) {
+		throw new Error(`Not a snapshot: ${file}`);
+	}
+	return snapshot;
+}
+
+/** Lists the snapshot files in an archive directory, oldest first. */
+export async function listSnapshots(dir: string): Promise<string[]> {
+	const files = await fs.readdir(dir);
+	return files
+		.filter(file => file.endsWith(SNAPSHOT_EXTENSION))
+		.map(file => file.slice(0, -SNAPSHOT_EXTENSION.length))
+		// Numeric, so suffixed names from the same time stay in order.
+		.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+		.map(name => path.join(dir, name + SNAPSHOT_EXTENSION));
+}
+
+/**
+ * Reads every snapshot in an archive directory that includes the given
+ * server, and returns the server's state in each one, oldest first.
+ */
+export async function serverHistory(dir: string, server: ServerAddress): Promise<HistoryEntry[]> {
+	const key = addressKey(server);
+	const history: HistoryEntry[] = [];
+
+	for (const file of await listSnapshots(dir)) {
+		const snapshot = await loadSnapshot(file);
+		const result = snapshot.results.find(result => addressKey(result) === key);
+		if (result) {
+			history.push({ time: snapshot.time, result: parseServerResult(result) });
+		}
+	}
+
+	return history;
+}
+
+/**
+ * Compares two snapshots. Servers are matched by address, so a server listed
+ * by more than one master server is only compared once.
+ */
+export function diffSnapshots(before: Snapshot, after: Snapshot): SnapshotDiff {
+	const resultsBefore = indexResults(before);
+	const resultsAfter = indexResults(after);
+	const time = new Date(after.time);
+
+	const diff: SnapshotDiff = { from: before.time, to: after.time, added: [], removed: [], changed: [] };
+
+	resultsAfter.forEach((result, key) => {
+		const previous = resultsBefore.get(key);
+		if (!previous) {
+			diff.added.push(serverOf(result));
+			return;
+		}
+
+		const changes = diffResults(previous, result, time);
+		if (changes.events.length > 0 || changes.settings.length > 0) {
+			diff.changed.push(changes);
+		}
+	});
+	resultsBefore.forEach((result, key) => {
+		if (!resultsAfter.has(key)) {
+			diff.removed.push(serverOf(result));
+		}
+	});
+
+	return diff;
+}
+
+/** Compares the same server's result from two points in time. */
+export function diffResults(
+	before: ParsedServerResult,
+	after: ParsedServerResult,
+	time = new Date(),
+): ServerDiff {
+	const server = serverOf(after);
+	const diff: ServerDiff = { server, events: [], settings: [] };
+
+	if (isResponse(before) && isResponse(after)) {
+		diff.events = diffServerInfo(server, before.data, after.data, time);
+		diff.settings = diffSettings(before.data, after.data);
+	} else if (isResponse(after)) {
+		diff.events.push({ type: 'server_online', server, time, result: after });
+	} else if (isResponse(before)) {
+		diff.events.push({ type: 'server_offline', server, time, result: after });
+	}
+
+	return diff;
+}
+
+/**
+ * Finds the info fields that changed, other than {@link NON_SETTING_KEYS}.
+ * Flags are compared by their labels, one change per labelled field (e.g.
+ * `player_flags_labels.weapon_set`), rather than as raw or decoded numbers.
+ */
+function diffSettings(before: ServerInfo, after: ServerInfo): SettingChange[] {
+	const settingsBefore = flattenSettings(before);
+	const settingsAfter = flattenSettings(after);
+	const keys = new Set([...settingsBefore.keys(), ...settingsAfter.keys()]);
+	return Array.from(keys)
+		.map(key => ({ key, from: settingsBefore.get(key) ?? null, to: settingsAfter.get(key) ?? null }))
+		.filter(({ from, to }) => JSON.stringify(from) !== JSON.stringify(to)) as SettingChange[];
+}
+
+/** Picks out the settings in server info, with flag labels flattened out. */
+function flattenSettings(info: ServerInfo): Map<string, unknown> {
+	const settings = new Map<string, unknown>();
+	Object.entries(info)
+		.filter(([key]) => !NON_SETTING_KEYS.includes(key) && !FLAG_KEYS.includes(key) && !key.endsWith('_decoded'))
+		.forEach(([key, value]) => {
+			if (key.endsWith('_labels') && value && typeof value === 'object') {
+				Object.entries(value).forEach(([field, label]) => settings.set(`${key}.${field}`, label));
+			} else {
+				settings.set(key, value);
+			}
+		});
+	return settings;
+}
+
+/** Parses a snapshot's results, keyed by address. */
+function indexResults(snapshot: Snapshot): Map<string, ParsedServerResult> {
+	return new Map(snapshot.results.map(result => [addressKey(result), parseServerResult(result)]));
+}
+
+function serverOf(result: ParsedServerResult): Server {
+	return { address: result.address, port: result.port, game: result.game };
+}
@@ -18,6 +18,11 @@ export interface Bitfield<T> {
 	size: number;
 }
 
+/** Default width of a {@link Struct}, in bits. */
+const DEFAULT_STRUCT_SIZE = 32;
+/** Fields are plain numbers, so can't be wider than a number can hold exactly. */
+const MAX_FIELD_SIZE = 53;
+
 /**
  * Defines a bitfield struct that can decode values into named fields.
  *
@@ -27,6 +32,8 @@ export interface Bitfield<T> {
  * https://github.com/microsoft/TypeScript/issues/15300#issuecomment-371353444
  */
 export class Struct<T extends Record<string, number> = Record<string, number>> {
+	/** Size of the whole struct in bits. */
+	readonly size: number;
 	private fields: Bitfield<T>[];
 	private decodedFields: T;
 
@@ -35,30 +42,57 @@ export class Struct<T extends Record<string, number> = Record<string, number>> {
 	 * according to the given size and fields.
 	 *
 	 * @param fields The named fields of the bitfield, in right-to-left order.
+	 * @param size Size of the whole struct in bits. Structs wider than 32 bits
+	 * are fine, but need {@link encodeBigInt} past 53 bits.
+	 * @throws If a field's size is invalid, a field name is repeated, or the
+	 * fields don't fit in the struct.
 	 */
-	constructor(fields: Bitfield<T>[]) {
+	constructor(fields: Bitfield<T>[], size = DEFAULT_STRUCT_SIZE) {
+		if (!Number.isInteger(size) || size < 1) {
+			throw new Error(`Invalid struct size ${size}`);
+		}
+
+		const names = new Set<keyof T>();
+		fields.forEach(field => {
+			if (!Number.isInteger(field.size) || field.size < 1 || field.size > MAX_FIELD_SIZE) {
+				throw new Error(`Invalid size ${field.size} for field ${String(field.name)}`);
+			}
+			if (names.has(field.name)) {
+				throw new Error(`Duplicate field ${String(field.name)}`);
+			}
+			names.add(field.name);
+		});
+
+		const totalSize = fields.reduce((total, field) => total + field.size, 0);
+		if (totalSize > size) {
+			throw new Error(`Fields need ${totalSize} bits, but the struct is only ${size} bits`);
+		}
+
+		this.size = size;
 		this.fields = fields;
 		this.decodedFields = {} as T;
-		// TODO probably verify the sum of fieldDef sizes is <= size.
 	}
 
 	/**
 	 * Decodes the given value into fields according to the {@link Bitfield}s
-	 * this {@link Struct} was initialized with.
+	 * this {@link Struct} was initialized with. Bits past the struct's size
+	 * are ignored, and negative values are read as two's complement.
 	 */
-	decode(value: number): T {
-		let offset = 0;
-		this.decodedFields = this.fields.reduce<T>((record, def) => {
-			const mask = Array(def.size)
-				.fill(null)
-				.reduce((value) => (value << 1) | 1, 0);
+	decode(value: number | bigint): T {
+		// NaN and friends have no bits to speak of, so decode like 0.
+		const bits = BigInt.asUintN(this.size, typeof value === 'bigint'
+			? value
+			: BigInt(Number.isFinite(value) ? Math.trunc(value) : 0)
+		);
 
+		let offset = 0n;
+		this.decodedFields = this.fields.reduce<T>((record, def) => {
 			// Need this cast because TypeScript complains that T[keyof T]
 			// might not be a number, but TypeScript also complains if we try to
 			// pass in a type for T where that happens, so this is probably safe.
-			(record[def.name] as number) = (value >> offset) & mask;
+			(record[def.name] as number) = Number(BigInt.asUintN(def.size, bits >> offset));
 
-			offset += def.size;
+			offset += BigInt(def.size);
 			return record;
 		}, {} as T);
 
@@ -66,14 +100,34 @@ export class Struct<T extends Record<string, number> = Record<string, number>> {
 	}
 
 	/**
-	 * Encodes the current field values into a number according to the
-	 * {@link Bitfield}s this {@link Struct} was initialized with.
+	 * Encodes field values into a number according to the {@link Bitfield}s
+	 * this {@link Struct} was initialized with. Inverse of {@link decode}.
+	 *
+	 * @param values The values to encode. Defaults to {@link data}.
+	 * @throws If the struct is too wide for a number, or any field value is
+	 * missing or doesn't fit in its field.
 	 */
-	encode(): number {
-		// TODO we don't actually need this functionality right now, but this
-		// class is pretty close to being more generally useful as its own
-		// library. We'll implement this if we ever pull this out.
-		return 0;
+	encode(values: T = this.decodedFields): number {
+		if (this.size > MAX_FIELD_SIZE) {
+			throw new Error(`Struct is ${this.size} bits, which is too wide for a number. Use encodeBigInt instead.`);
+		}
+		return Number(this.encodeBigInt(values));
+	}
+
+	/** Like {@link encode}, but for structs of any size. */
+	encodeBigInt(values: T = this.decodedFields): bigint {
+		let offset = 0n;
+		return this.fields.reduce((encoded, def) => {
+			const value = values[def.name];
+			const max = 2 ** def.size - 1;
+			if (!Number.isInteger(value) || value < 0 || value > max) {
+				throw new Error(`Value ${value} for field ${String(def.name)} is not an integer from 0 to ${max}`);
+			}
+
+			encoded |= BigInt(value) << offset;
+			offset += BigInt(def.size);
+			return encoded;
+		}, 0n);
 	}
 
 	/**
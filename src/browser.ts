@@ -0,0 +1,470 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { HaloQuery, HaloQueryOpts, Target } from './client';
+import { FilterSyntaxError, compileFilter } from './filter';
+import { ParsedServerResponse, isResponse } from './handler';
+import { DEFAULT_POLL_INTERVAL_MS } from './monitor';
+import { InfoValue } from './response';
+import { ColumnName, renderRecords, renderTable, sortResults } from './table';
+import { QueryTransport, addressKey } from './transport';
+
+/** The columns shown in the server list. */
+const BROWSER_COLUMNS: ColumnName[] = ['hostname', 'address', 'map', 'gametype', 'players', 'ping'];
+
+/** Keys that change the sort order, and the column each sorts by. */
+const SORT_KEYS: Record<string, ColumnName> = {
+	p: 'ping',
+	n: 'players',
+	m: 'map',
+	h: 'hostname',
+};
+
+/* Raw ANSI escape sequences, so we don't need a terminal UI library. */
+const ESC = '\x1b';
+const ALT_SCREEN_ON  = `${ESC}[?1049h`;
+const ALT_SCREEN_OFF = `${ESC}[?1049l`;
+const CURSOR_HIDE    = `${ESC}[?25l`;
+const CURSOR_SHOW    = `${ESC}[?25h`;
+const CLEAR_SCREEN   = `${ESC}[2J${ESC}[H`;
+const INVERSE        = `${ESC}[7m`;
+const BOLD           = `${ESC}[1m`;
+const RESET          = `${ESC}[0m`;
+
+/* Input sequences for the keys we care about. */
+const KEY_UP        = `${ESC}[A`;
+const KEY_DOWN      = `${ESC}[B`;
+const KEY_PAGE_UP   = `${ESC}[5~`;
+const KEY_PAGE_DOWN = `${ESC}[6~`;
+const KEY_ENTER     = '\r';
+const KEY_ESCAPE    = ESC;
+const KEY_BACKSPACE = '\x7f';
+const KEY_CTRL_C    = '\x03';
+
+/**
+ * Splits terminal input into individual keys. Fast typing and pasting can
+ * deliver several keys at once.
+ */
+const KEY_REGEX = /\x1b\[[0-9;]*[~A-Za-z]|[\s\S]/g;
+
+/** Title bar, table header, filter line and status line. */
+const CHROME_LINES = 4;
+
+export interface ServerBrowserOpts extends HaloQueryOpts {
+	/**
+	 * Milliseconds between the end of one refresh and the start of the next.
+	 * Defaults to {@link DEFAULT_POLL_INTERVAL_MS}.
+	 */
+	interval?: number;
+	/** Where keypresses come from. Defaults to `process.stdin`. */
+	input?: NodeJS.ReadStream;
+	/** Where the screen is drawn. Defaults to `process.stdout`. */
+	output?: NodeJS.WriteStream;
+}
+
+type Mode = 'list' | 'filter' | 'detail';
+
+/**
+ * A full-screen interactive server browser for the terminal, like the one in
+ * the game's multiplayer menu.
+ *
+ * Lists every responding server and refreshes them at an interval. The list
+ * can be sorted, and filtered as you type (either by text, or with a
+ * {@link compileFilter} expression). Selecting a server opens a detail pane
+ * with its players, teams and decoded flags.
+ */
+export class ServerBrowser {
+	readonly interval: number;
+	private client: HaloQuery;
+	private targets: Target[];
+	private transport: QueryTransport | null = null;
+	private input: NodeJS.ReadStream;
+	private output: NodeJS.WriteStream;
+
+	private servers: ParsedServerResponse[] = [];
+	private unreachable = 0;
+	private visible: ParsedServerResponse[] = [];
+	private selectedKey: string | null = null;
+	private selected = 0;
+	private scroll = 0;
+	private detailScroll = 0;
+	private mode: Mode = 'list';
+	private sortBy: ColumnName = 'ping';
+	private descending = false;
+	private filterText = '';
+	private filterError: string | null = null;
+	private status = '';
+	private updated: Date | null = null;
+	private refreshing = false;
+
+	private timer: NodeJS.Timeout | null = null;
+	private closed = false;
+	private onQuit: (() => void) | null = null;
+	private onKey = (data: Buffer): void => this.handleInput(data.toString());
+	private onResize = (): void => this.render();
+
+	constructor(targets: Target[], opts?: ServerBrowserOpts) {
+		this.targets = [...targets];
+		this.interval = opts?.interval ?? DEFAULT_POLL_INTERVAL_MS;
+		this.input = opts?.input ?? process.stdin;
+		this.output = opts?.output ?? process.stdout;
+
+		if (!opts?.transport) {
+			this.transport = new QueryTransport(opts);
+		}
+		this.client = new HaloQuery({
+			...opts,
+			transport: opts?.transport ?? this.transport!,
+		});
+	}
+
+	/**
+	 * Takes over the terminal and starts refreshing. Resolves once the user
+	 * quits, after the terminal has been restored.
+	 */
+	async run(): Promise<void> {
+		this.output.write(ALT_SCREEN_ON + CURSOR_HIDE);
+		this.input.setRawMode?.(true);
+		this.input.on('data', this.onKey);
+		this.input.resume();
+		this.output.on('resize', this.onResize);
+
+		this.render();
+		this.refresh();
+
+		await new Promise<void>(resolve => this.onQuit = resolve);
+	}
+
+	/** Restores the terminal and stops refreshing. */
+	close(): void {
+		if (this.closed) return;
+		this.closed = true;
+
+		if (this.timer) clearTimeout(this.timer);
+		this.transport?.close();
+
+		this.output.removeListener('resize', this.onResize);
+		this.input.removeListener('data', this.onKey);
+		this.input.setRawMode?.(false);
+		this.input.pause();
+		this.output.write(CURSOR_SHOW + ALT_SCREEN_OFF);
+
+		this.onQuit?.();
+	}
+
+	/** Queries every target, then schedules the next refresh. */
+	private async refresh(): Promise<void> {
+		if (this.refreshing || this.closed) return;
+		if (this.timer) clearTimeout(this.timer);
+
+		this.refreshing = true;
+		this.render();
+
+		try {
+			const results = await this.client.query(this.targets);
+			this.servers = results.filter(isResponse);
+			this.unreachable = results.length - this.servers.length;
+			this.updated = new Date();
+		} catch (err) {
+			this.status = `Refresh failed: ${(err as Error).message}`;
+		}
+
+		this.refreshing = false;
+		if (this.closed) return;
+
+		this.updateVisible();
+		this.render();
+		this.timer = setTimeout(() => this.refresh(), this.interval);
+	}
+
+	/** Re-applies the filter and sort, keeping the same server selected. */
+	private updateVisible(): void {
+		let predicate: (server: ParsedServerResponse) => boolean = () => true;
+		this.filterError = null;
+
+		if (this.filterText) {
+			try {
+				predicate = makePredicate(this.filterText);
+			} catch (err) {
+				// Probably a half-typed expression, so keep showing everything.
+				if (!(err instanceof FilterSyntaxError)) throw err;
+				this.filterError = err.message;
+			}
+		}
+
+		this.visible = sortResults(
+			this.servers.filter(predicate),
+			this.sortBy,
+			this.descending,
+		);
+
+		const index = this.visible.findIndex(server => addressKey(server) === this.selectedKey);
+		this.select(index >= 0 ? index : this.selected);
+	}
+
+	/** Moves the selection, keeping it on screen. */
+	private select(index: number): void {
+		this.selected = Math.max(0, Math.min(index, this.visible.length - 1));
+		const current = this.visible[this.selected];
+		this.selectedKey = current ? addressKey(current) : null;
+
+		const height = this.listHeight();
+		if (this.selected < this.scroll) {
+			this.scroll = this.selected;
+		} else if (this.selected >= this.scroll + height) {
+			this.scroll = this.selected - height + 1;
+		}
+		this.scroll = Math.max(0, this.scroll);
+	}
+
+	private handleInput(input: string): void {
+		for (const [key] of input.matchAll(KEY_REGEX)) {
+			if (key === KEY_CTRL_C) {
+				this.close();
+				return;
+			}
+			this.status = '';
+
+			switch (this.mode) {
+				case 'filter': this.handleFilterKey(key); break;
+				case 'detail': this.handleDetailKey(key); break;
+				case 'list':   this.handleListKey(key); break;
+			}
+			if (this.closed) return;
+		}
+
+		this.render();
+	}
+
+	private handleListKey(key: string): void {
+		const page = this.listHeight();
+
+		if (key === 'q') {
+			this.close();
+		} else if (key === KEY_UP || key === 'k') {
+			this.select(this.selected - 1);
+		} else if (key === KEY_DOWN || key === 'j') {
+			this.select(this.selected + 1);
+		} else if (key === KEY_PAGE_UP) {
+			this.select(this.selected - page);
+		} else if (key === KEY_PAGE_DOWN) {
+			this.select(this.selected + page);
+		} else if (key === KEY_ENTER && this.visible.length > 0) {
+			this.mode = 'detail';
+			this.detailScroll = 0;
+		} else if (key === '/') {
+			this.mode = 'filter';
+		} else if (key === KEY_ESCAPE && this.filterText) {
+			this.filterText = '';
+			this.updateVisible();
+		} else if (key === 'r') {
+			this.refresh();
+		} else if (key === 'c') {
+			this.copySelected();
+		} else if (SORT_KEYS[key]) {
+			// Picking the same column again flips the order.
+			if (this.sortBy === SORT_KEYS[key]) {
+				this.descending = !this.descending;
+			} else {
+				this.sortBy = SORT_KEYS[key];
+				this.descending = false;
+			}
+			this.updateVisible();
+		}
+	}
+
+	private handleFilterKey(key: string): void {
+		if (key === KEY_ENTER) {
+			this.mode = 'list';
+		} else if (key === KEY_ESCAPE) {
+			this.filterText = '';
+			this.mode = 'list';
+		} else if (key === KEY_BACKSPACE) {
+			this.filterText = this.filterText.slice(0, -1);
+		} else if (key === KEY_UP || key === KEY_DOWN) {
+			this.handleListKey(key);
+			return;
+		} else if (!key.startsWith(ESC) && key >= ' ') {
+			this.filterText += key;
+		} else {
+			return;
+		}
+		this.updateVisible();
+	}
+
+	private handleDetailKey(key: string): void {
+		if (key === 'q' || key === KEY_ESCAPE || key === KEY_BACKSPACE) {
+			this.mode = 'list';
+		} else if (key === KEY_UP || key === 'k') {
+			this.detailScroll = Math.max(0, this.detailScroll - 1);
+		} else if (key === KEY_DOWN || key === 'j') {
+			this.detailScroll++;
+		} else if (key === 'c') {
+			this.copySelected();
+		} else if (key === 'r') {
+			this.refresh();
+		}
+	}
+
+	/**
+	 * Copies the selected server's address to the clipboard using the OSC 52
+	 * escape sequence, which most modern terminals support. The address is
+	 * also shown in the status line, in case the terminal doesn't.
+	 */
+	private copySelected(): void {
+		const server = this.visible[this.selected];
+		if (!server) return;
+
+		const address = `${server.address}:${server.port}`;
+		this.output.write(`${ESC}]52;c;${Buffer.from(address).toString('base64')}\x07`);
+		this.status = `Copied ${address} (paste into the game console with "connect ${address}")`;
+	}
+
+	/** How many server rows fit on screen. */
+	private listHeight(): number {
+		return Math.max(1, (this.output.rows ?? 24) - CHROME_LINES);
+	}
+
+	/** Redraws the whole screen. */
+	private render(): void {
+		if (this.closed) return;
+
+		const width = this.output.columns ?? 80;
+		const height = this.output.rows ?? 24;
+		const body = this.mode === 'detail' ? this.renderDetail(height - 2) : this.renderList();
+
+		const lines = [
+			BOLD + fit(this.titleLine(), width, true) + RESET,
+			...body.map(line => line.startsWith(INVERSE)
+				? INVERSE + fit(line.substring(INVERSE.length), width, true) + RESET
+				: fit(line, width)
+			),
+		];
+		while (lines.length < height - 1) lines.push('');
+		lines.push(fit(this.statusLine(), width));
+
+		this.output.write(CLEAR_SCREEN + lines.join('\r\n'));
+	}
+
+	private titleLine(): string {
+		const arrow = this.descending ? '▼' : '▲';
+		const parts = [
+			'halo-query browse',
+			`${this.visible.length}/${this.servers.length} servers`,
+			`${this.unreachable} unreachable`,
+			`sort: ${this.sortBy} ${arrow}`,
+			this.refreshing
+				? 'refreshing…'
+				: `updated ${this.updated?.toLocaleTimeString() ?? 'never'}`,
+		];
+		return ` ${parts.join(' · ')}`;
+	}
+
+	private statusLine(): string {
+		if (this.status) return this.status;
+		switch (this.mode) {
+			case 'filter': return '⏎ done  esc clear  (text, or an expression like numplayers>0)';
+			case 'detail': return '↑↓ scroll  esc back  c copy address  r refresh  ^C quit';
+			case 'list':   return '↑↓ move  ⏎ details  / filter  p/n/m/h sort  r refresh  c copy  q quit';
+		}
+	}
+
+	/** The server table, plus the filter line. Selected lines start with INVERSE. */
+	private renderList(): string[] {
+		const [header, ...rows] = renderTable(this.visible, { columns: BROWSER_COLUMNS }).split('\n');
+		const shown = rows
+			.slice(this.scroll, this.scroll + this.listHeight())
+			.map((row, i) => this.scroll + i === this.selected ? INVERSE + row : row);
+
+		while (shown.length < this.listHeight()) shown.push('');
+
+		let filterLine = '';
+		if (this.mode === 'filter' || this.filterText) {
+			filterLine = `/${this.filterText}${this.mode === 'filter' ? '█' : ''}`;
+			if (this.filterError) filterLine += `   (${this.filterError})`;
+		}
+
+		return [header, ...shown, filterLine];
+	}
+
+	/** Everything we know about the selected server. */
+	private renderDetail(height: number): string[] {
+		const server = this.visible[this.selected];
+		if (!server) return ['Server is no longer in the list.'];
+
+		const info = server.data;
+		const text = (key: string): string => valueText(info[key] as InfoValue);
+
+		const lines = [
+			`${BOLD}${text('hostname')}${RESET}`,
+			'',
+			...pairs([
+				['Address', `${server.address}:${server.port}`],
+				['Ping', `${server.ping} ms`],
+				['Map', text('mapname')],
+				['Game type', `${text('gametype')} (${text('gamevariant')})`],
+				['Players', `${text('numplayers')}/${text('maxplayers')}`],
+				['Password', info.password ? 'yes' : 'no'],
+				['Version', text('gamever')],
+			]),
+		];
+
+		const section = (title: string, content: string[]): void => {
+			if (content.length === 0) return;
+			lines.push('', `${BOLD}${title}${RESET}`, ...content.map(line => `  ${line}`));
+		};
+
+		section('Players', info.players?.length ? renderRecords(info.players) : []);
+		section('Teams', info.teams?.length ? renderRecords(info.teams) : []);
+		section('Game flags', pairs(Object.entries(info.game_flags_labels ?? {})));
+		section('Player flags', pairs(Object.entries(info.player_flags_labels ?? {})));
+		section('Vehicle flags', pairs(Object.entries(info.vehicle_flags_labels ?? {})));
+
+		this.detailScroll = Math.min(this.detailScroll, Math.max(0, lines.length - height));
+		return lines.slice(this.detailScroll, this.detailScroll + height);
+	}
+}
+
+/**
+ * Makes a predicate from what the user typed. Anything that looks like an
+ * expression is compiled as one. Otherwise we look for the text in the
+ * server's hostname, map, game type (and variant) and "address:port".
+ */
+function makePredicate(text: string): (server: ParsedServerResponse) => boolean {
+	if (/[=<>!&|]/.test(text)) {
+		const predicate = compileFilter(text);
+		return server => predicate(server.data);
+	}
+
+	const needle = text.toLowerCase();
+	return server => [
+		...['hostname', 'mapname', 'gametype', 'gamevariant']
+			.map(key => valueText(server.data[key] as InfoValue)),
+		addressKey(server),
+	].some(value => value.toLowerCase().includes(needle));
+}
+
+/** Lines up a list of labels and values. */
+function pairs(entries: [string, unknown][]): string[] {
+	const width = Math.max(0, ...entries.map(([label]) => label.length));
+	return entries.map(([label, value]) => `${label.padEnd(width)}  ${value}`);
+}
+
+/**
+ * Truncates or pads a line to exactly the screen width. Lines containing
+ * escape sequences are only padded when asked, since their length lies.
+ */
+function fit(line: string, width: number, pad = false): string {
+	const plain = !line.includes(ESC);
+	if (plain && line.length > width) return line.substring(0, width);
+	return pad ? line.padEnd(width) : line;
+}
+
+function valueText(value: InfoValue | undefined): string {
+	return value === null || value === undefined ? '' : String(value);
+}
@@ -7,23 +7,57 @@
  * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
  * for more information.
  ******************************************************************************/
-import { Command, Option } from 'commander';
+import { Argument, Command, InvalidArgumentError, Option } from 'commander';
+import { readFileSync } from 'fs';
 import { Optional } from 'utility-types';
 
+import {
+	HistoryEntry,
+	ServerDiff,
+	SettingChange,
+	SnapshotDiff,
+	diffResults,
+	diffSnapshots,
+	loadSnapshot,
+	saveSnapshot,
+	serverHistory,
+} from './archive';
+import { HaloQuery, HaloQueryOpts } from './client';
+import { FilterSyntaxError, ServerPredicate, compileFilter } from './filter';
+import { ApiServer, DEFAULT_API_PORT } from './api';
+import { ServerBrowser } from './browser';
+import { CsvRows, resultsToCsv, serversToCsv } from './format';
 import { GameKeys, MasterServer } from './gamespy';
 import {
+	DEFAULT_SERVER_PORT,
+	ParsedServerResult,
 	Server,
-	ServerResponse,
-	queryServerInfo,
-	resolveServers,
+	ServerResult,
+	isResponse,
+	parseServerResult,
 } from './handler';
+import {
+	DEFAULT_POLL_INTERVAL_MS,
+	MonitorEvent,
+	ServerMonitor,
+} from './monitor';
 import { ServerAddress } from './network';
-import { parseServerInfo } from './response';
+import { PLAYER_MATCH_MODES, PlayerMatchMode } from './players';
+import { ParseOpts } from './response';
+import { PopulationStats, StatsReport } from './stats';
+import {
+	ColumnName,
+	DEFAULT_TABLE_COLUMNS,
+	TABLE_COLUMNS,
+	TableOpts,
+	isColumnName,
+	renderRecords,
+	renderTable,
+} from './table';
+import { TrafficRecorder, TrafficReplay, saveTrafficCapture } from './traffic';
 
 const PACKAGE = require('../package.json');
 
-const DEFAULT_SERVER_PORT = 2302;
-
 enum CLIMasterServer {
 	ce      = 'Halo Custom Edition.',
 	pc      = 'Halo: Combat Evolved (aka Halo PC).',
@@ -36,6 +70,16 @@ type CLIMasterServerName = keyof typeof CLIMasterServer;
 type CLIAddress = Optional<ServerAddress, 'port'>;
 type CLIServerArg = CLIAddress | MasterServer;
 
+/**
+ * The game server port option is usually `--port`, but commands that listen
+ * on a port of their own need that name for themselves.
+ */
+type GamePortOption = 'port' | 'gamePort';
+const GAME_PORT_FLAGS: Record<GamePortOption, string> = {
+	port:     '-p --port <number>',
+	gamePort: '--game-port <number>',
+};
+
 const CLI_MASTER_NAME_TRANSLATE =
 	Object.freeze<Record<CLIMasterServerName, keyof typeof GameKeys>>({
 		beta:    'halo',
@@ -46,12 +90,147 @@ const CLI_MASTER_NAME_TRANSLATE =
 		pc:      'halor',
 	});
 
+/** Traffic being recorded with `--record-traffic`, if any. */
+let trafficRecording: { file: string; recorder: TrafficRecorder } | undefined;
+
+const queryCommand = addRecordTrafficOption(addClientOptions(new Command('query')))
+	.description('Queries and prints Halo game server information.')
+	.addArgument(serversArgument())
+	.option('-a --address-only', 'Only output server addresses', false)
+	.option('-j --json', 'Output as JSON.')
+	.option('--ping-samples <number>', 'Query each server this many times to measure latency.', parsePositiveInt)
+	.option('--sort-by-ping', 'Sort servers by ping, fastest first.', false)
+	.addOption(new Option('-f, --filter <expression>', [
+		'Only output servers matching this expression,',
+		"e.g. 'numplayers>0 && mapname==bloodgulch && !password'.",
+		'Supports ==, !=, >, >=, <, <=, =~ (regex), &&, ||, ! and parentheses.',
+		'Nested fields use dots, e.g. game_flags_labels.game_type==CTF.',
+	].join(' '))
+		.argParser(parseFilter)
+		.conflicts('addressOnly')
+	)
+	.addOption(new Option('-r, --raw', 'Output as raw query response string.')
+		.default(false)
+		.conflicts('json')
+	)
+	.addOption(new Option('--pretty', 'Pretty-print JSON output. Implies --json.')
+		.default(false)
+		.conflicts('raw')
+	)
+	.addOption(new Option('--table', 'Output as a table of aligned columns.')
+		.default(false)
+		.conflicts(['json', 'raw', 'pretty', 'addressOnly'])
+	)
+	.addOption(new Option('--format <format>', 'Output as CSV, or as one JSON object per line (streamed as servers respond).')
+		.choices(['csv', 'ndjson'])
+		.conflicts(['json', 'raw', 'pretty', 'table'])
+	)
+	.addOption(new Option('--csv-rows <rows>', 'Output one CSV row per server, or one per player.')
+		.choices(['server', 'player'])
+		.default('server')
+	)
+	.option('--columns <list>', [
+		'Comma-separated table columns to show, in order.',
+		`Available: ${Object.keys(TABLE_COLUMNS).join(', ')}.`,
+		`Default: ${DEFAULT_TABLE_COLUMNS.join(',')}.`,
+	].join(' '), parseColumns)
+	.addOption(new Option('--sort-by <column>', 'Sort table rows by this column.')
+		.choices(Object.keys(TABLE_COLUMNS))
+	)
+	.option('--descending', 'Sort table rows in descending order.', false)
+	.option('--max-hostname-length <number>', 'Truncate hostnames in tables to this length. 0 for no limit.', parseNonNegativeInt)
+	.option('--show-players', 'Show each server\'s players in a table under it.', false)
+	.option('--show-teams', 'Show each server\'s teams in a table under it.', false)
+	.addOption(new Option('-u, --include-unreachable', 'Also output servers that did not respond, and why.')
+		.default(false)
+	)
+	.addOption(new Option('-U, --only-unreachable', 'Only output servers that did not respond, and why.')
+		.default(false)
+		.conflicts('includeUnreachable')
+	)
+	.addOption(new Option('--record <dir>', 'Also save every result, raw responses included, as a snapshot in this archive directory.')
+		.conflicts('addressOnly')
+	)
+	.action(savingTraffic(query));
+
+const watchCommand = addClientOptions(new Command('watch'))
+	.description('Polls Halo game servers and prints what changes between polls.')
+	.addArgument(serversArgument())
+	.option('-i --interval <number>', 'Milliseconds to wait between polls.', parsePositiveInt, DEFAULT_POLL_INTERVAL_MS)
+	.option('-j --json', 'Output each event as a line of JSON.', false)
+	.action(watch);
+
+const browseCommand = addClientOptions(new Command('browse'))
+	.description('Opens an interactive, full-screen server browser.')
+	.addArgument(serversArgument())
+	.option('-i --interval <number>', 'Milliseconds to wait between refreshes.', parsePositiveInt, DEFAULT_POLL_INTERVAL_MS)
+	.action(browse);
+
+const serveCommand = addClientOptions(new Command('serve'), 'gamePort')
+	.description('Polls servers in the background and serves their info as a JSON REST API, with live updates over WebSocket.')
+	.addArgument(serversArgument())
+	.option('-p --port <number>', 'Port for the HTTP server to listen on.', parsePort, DEFAULT_API_PORT)
+	.option('--host <string>', 'Address for the HTTP server to listen on. Defaults to every interface.')
+	.option('-i --interval <number>', 'Milliseconds to wait between polls.', parsePositiveInt, DEFAULT_POLL_INTERVAL_MS)
+	.action(serve);
+
+const findPlayerCommand = addRecordTrafficOption(addClientOptions(new Command('find-player')))
+	.description('Finds which servers a player is on.')
+	.argument('<name>', 'The player name to search for.')
+	.addArgument(serversArgument())
+	.addOption(new Option('--match <mode>', [
+		'How to compare names. exact ignores color codes,',
+		'insensitive also ignores case and clan tags,',
+		'and fuzzy also allows partial names and typos.',
+	].join(' '))
+		.choices(PLAYER_MATCH_MODES)
+		.default('insensitive')
+	)
+	.option('-j --json', 'Output as JSON.', false)
+	.action(savingTraffic(findPlayer));
+
+const statsCommand = addRecordTrafficOption(addClientOptions(new Command('stats')))
+	.description('Queries every server and summarizes population, maps, game types and versions.')
+	.addArgument(serversArgument())
+	.option('--top <number>', 'How many rows to show in each breakdown.', parsePositiveInt, 10)
+	.option('-j --json', 'Output as JSON.', false)
+	.addOption(new Option('--pretty', 'Pretty-print JSON output. Implies --json.')
+		.default(false)
+	)
+	.action(savingTraffic(stats));
+
+const diffCommand = new Command('diff')
+	.description('Compares two snapshots saved with --record.')
+	.argument('<snapshotA>', 'The earlier snapshot file.')
+	.argument('<snapshotB>', 'The later snapshot file.')
+	.option('-j --json', 'Output as JSON.', false)
+	.action(diff);
+
+const historyCommand = new Command('history')
+	.description('Prints a timeline of one server from the snapshots saved with --record.')
+	.argument('<server>', 'The server address (e.g. 111.222.333.444:1234).', parseCLIAddress)
+	.requiredOption('-d --archive <dir>', 'The archive directory snapshots were saved to.')
+	.option('-j --json', 'Output every snapshot of the server as JSON.', false)
+	.action(history);
+
 const cliArgs = new Command()
 	.name('halo-query')
 	.description('Queries and prints Halo game server information.')
 	.allowExcessArguments(false)
 	.allowUnknownOption(false)
-	.argument(
+	.addCommand(queryCommand, { isDefault: true })
+	.addCommand(watchCommand)
+	.addCommand(browseCommand)
+	.addCommand(serveCommand)
+	.addCommand(findPlayerCommand)
+	.addCommand(statsCommand)
+	.addCommand(diffCommand)
+	.addCommand(historyCommand)
+	.version(PACKAGE.version);
+
+/** Makes the server list argument shared by every command. */
+function serversArgument(): Argument {
+	return new Argument(
 		'<servers...>',
 		[
 			'A list of server IPs to query (e.g. 111.222.333.444:1234).\n\n',
@@ -61,23 +240,108 @@ const cliArgs = new Command()
 				`\t${name.padEnd(10)}${desc}\n`
 			)),
 		].join(' '),
-		parseServer,
-	)
-	.option('-a --address-only', 'Only output server addresses', false)
-	.option('-j --json', 'Output as JSON.')
-	.option('-m --master-server-host <string>', 'Override default master server host / IP.', parseCLIAddress)
-	.option('-p --port <number>', 'Override default UDP port for game servers.', parsePort)
-	.option('-t --timeout <number>', 'Request timeout in milliseconds.', Number.parseInt)
-	.addOption(new Option('-r, --raw', 'Output as raw query response string.')
-		.default(false)
-		.conflicts('json')
-	)
-	.addOption(new Option('--pretty', 'Pretty-print JSON output. Implies --json.')
-		.default(false)
-		.conflicts('raw')
-	)
-	.version(PACKAGE.version)
-	.parse(process.argv);
+	).argParser(parseServer);
+}
+
+/** Adds the options used to build a {@link HaloQuery} client. See {@link makeClient}. */
+function addClientOptions(command: Command, gamePort: GamePortOption = 'port'): Command {
+	return command
+		.allowExcessArguments(false)
+		.allowUnknownOption(false)
+		.option('-m --master-server-host <string>', 'Override default master server host / IP.', parseCLIAddress)
+		.option(GAME_PORT_FLAGS[gamePort], 'Override default UDP port for game servers.', parsePort)
+		.option('-t --timeout <number>', 'Request timeout in milliseconds.', Number.parseInt)
+		.option('--retries <number>', 'Retry unresponsive servers and failed master server fetches this many times.', parseNonNegativeInt)
+		.option('--retry-backoff <number>', 'Milliseconds to wait before the first retry. Doubles with each retry.', parseNonNegativeInt)
+		.option('--retry-jitter <number>', 'Fraction (0 to 1) of each retry wait to randomize.', parseFraction)
+		.option('--max-in-flight <number>', 'Maximum number of game servers awaiting a response at once.', parsePositiveInt)
+		.option('--packets-per-second <number>', 'Maximum number of queries sent per second.', parsePositiveInt)
+		.option('--batch-size <number>', 'Query game servers in batches of this size.', parsePositiveInt)
+		.addOption(new Option('--replay-traffic <file>', 'Answer every request from a file saved with --record-traffic, instead of the network.')
+			.conflicts('recordTraffic')
+		)
+		.option('--strict', 'Treat incomplete or malformed server responses as unparseable, instead of making the best of them.', false);
+}
+
+/**
+ * Adds the `--record-traffic` option. Only for one-shot commands, since the
+ * capture is kept in memory until the command finishes. The command's action
+ * must be wrapped with {@link savingTraffic}.
+ */
+function addRecordTrafficOption(command: Command): Command {
+	return command
+		.option('--record-traffic <file>', 'Save all raw master server and game server traffic to this file, e.g. for a bug report.');
+}
+
+/**
+ * Wraps a command's action so traffic recorded with `--record-traffic` is
+ * saved once it finishes. Failed runs (the interesting ones) are saved too,
+ * so actions should set `process.exitCode` rather than calling `process.exit`.
+ */
+function savingTraffic<A extends unknown[]>(action: (...args: A) => Promise<void>): (...args: A) => Promise<void> {
+	return async (...args) => {
+		try {
+			await action(...args);
+		} finally {
+			if (trafficRecording) {
+				await saveTrafficCapture(trafficRecording.file, trafficRecording.recorder.capture);
+			}
+		}
+	};
+}
+
+/** Builds client options from the options added by {@link addClientOptions}. */
+function clientOpts(command: Command, gamePort: GamePortOption = 'port'): HaloQueryOpts {
+	const msOverride: CLIAddress | undefined = command.getOptionValue('masterServerHost');
+	const defaultPort: number | undefined    = command.getOptionValue(gamePort);
+	const timeout: number | undefined        = command.getOptionValue('timeout');
+	const retries: number | undefined        = command.getOptionValue('retries');
+	const retryBackoff: number | undefined   = command.getOptionValue('retryBackoff');
+	const retryJitter: number | undefined    = command.getOptionValue('retryJitter');
+	const maxInFlight: number | undefined    = command.getOptionValue('maxInFlight');
+	const packetsPerSecond: number | undefined = command.getOptionValue('packetsPerSecond');
+	const batchSize: number | undefined      = command.getOptionValue('batchSize');
+	const recordFile: string | undefined     = command.getOptionValue('recordTraffic');
+	const replayFile: string | undefined     = command.getOptionValue('replayTraffic');
+	const strictParsing: boolean             = command.getOptionValue('strict');
+
+	let recordTraffic: TrafficRecorder | undefined;
+	if (recordFile) {
+		recordTraffic = new TrafficRecorder();
+		// Saved by savingTraffic once the command finishes.
+		trafficRecording = { file: recordFile, recorder: recordTraffic };
+	}
+
+	let replayTraffic: TrafficReplay | undefined;
+	if (replayFile) {
+		try {
+			replayTraffic = new TrafficReplay(JSON.parse(readFileSync(replayFile, 'utf8')));
+		} catch (err) {
+			console.error(`Failed to read traffic capture ${replayFile}: ${(err as Error).message}`);
+			process.exit(1);
+		}
+	}
+
+	return {
+		masterHost: msOverride?.address,
+		masterPort: msOverride?.port,
+		masterTimeout: timeout,
+		serverPort: defaultPort,
+		retry: {
+			attempts: (retries ?? 0) + 1,
+			backoff: retryBackoff,
+			jitter: retryJitter,
+		},
+		throttle: {
+			maxInFlight,
+			packetsPerSecond,
+			batchSize,
+		},
+		recordTraffic,
+		replayTraffic,
+		strictParsing,
+	};
+}
 
 /**
  * Parses CLI arguments for IPs into an intelligible list.
@@ -112,44 +376,275 @@ function parsePort(value: string): number {
 	return port;
 }
 
+/** Compiles a filter expression, reporting syntax errors as bad arguments. */
+function parseFilter(value: string): ServerPredicate {
+	try {
+		return compileFilter(value);
+	} catch (err) {
+		if (err instanceof FilterSyntaxError) {
+			throw new InvalidArgumentError(err.message);
+		}
+		throw err;
+	}
+}
+
+/** Parses a comma-separated list of table column names. */
+function parseColumns(value: string): ColumnName[] {
+	return value.split(',').map(name => {
+		name = name.trim();
+		if (!isColumnName(name)) {
+			throw new InvalidArgumentError(`Unknown column: ${name}`);
+		}
+		return name;
+	});
+}
+
+/** Parses and validates a number that must be at least 1. */
+function parsePositiveInt(value: string): number {
+	const num = Number.parseInt(value);
+	if (Number.isNaN(num) || num < 1) {
+		throw new Error(`Invalid number: ${value}`);
+	}
+	return num;
+}
+
+/** Parses and validates a number that must be at least 0. */
+function parseNonNegativeInt(value: string): number {
+	const num = Number.parseInt(value);
+	if (Number.isNaN(num) || num < 0) {
+		throw new Error(`Invalid number: ${value}`);
+	}
+	return num;
+}
+
+/** Parses and validates a number between 0 and 1. */
+function parseFraction(value: string): number {
+	const num = Number.parseFloat(value);
+	if (Number.isNaN(num) || num < 0 || num > 1) {
+		throw new Error(`Invalid fraction: ${value}`);
+	}
+	return num;
+}
+
 /** Stringifies a Server. */
-function serverString(server: Server | ServerResponse): string {
+function serverString(server: Server): string {
 	return `\\game\\${server.game}\\ip\\${server.address}\\port\\${server.port}`;
 }
 
-async function main() {
-	const serverArgs = (cliArgs.processedArgs[0] as CLIServerArg[]);
-	const printAddressOnly: boolean          = cliArgs.getOptionValue('addressOnly');
-	const msOverride: CLIAddress | undefined = cliArgs.getOptionValue('masterServerHost');
-	const prettyPrintJson: boolean           = cliArgs.getOptionValue('pretty');
-	const defaultPort: number                = cliArgs.getOptionValue('port') ?? DEFAULT_SERVER_PORT;
-	const printRawText: boolean              = cliArgs.getOptionValue('raw');
-	const timeout: number | undefined        = cliArgs.getOptionValue('timeout');
+/** Stringifies a query result as a raw response string. */
+function resultString(result: ServerResult): string {
+	if (isResponse(result)) {
+		return `${serverString(result)}\\ping\\${result.ping}${result.data}`;
+	}
+	return `${serverString(result)}\\status\\${result.status}` +
+		`\\attempts\\${result.attempts}\\error\\${result.error}`;
+}
+
+/** The CLI name of a master server, like `ce` for `halom`. */
+function cliMasterName(game: string | null): string {
+	const entry = Object.entries(CLI_MASTER_NAME_TRANSLATE).find(([, key]) => key === game);
+	return entry?.[0] ?? game ?? 'other';
+}
+
+/**
+ * Stringifies a stats report as a summary table (comparing each master list,
+ * if there's more than one), followed by the breakdowns.
+ */
+function statsString(report: StatsReport, top: number): string {
+	const summary = (name: string, stats: PopulationStats) => ({
+		game: name,
+		servers: stats.servers,
+		responding: stats.responding,
+		players: stats.players,
+		passworded: stats.passworded,
+		passworded_players: stats.passwordedPlayers,
+	});
+	const sections: [string, PopulationStats][] = report.games.length > 1
+		? report.games.map(stats => [cliMasterName(stats.game), stats])
+		: [['total', report.total]];
+
+	const lines = renderRecords([
+		...sections.map(([name, stats]) => summary(name, stats)),
+		...(sections.length > 1 ? [summary('total', report.total)] : []),
+	]);
+
+	sections.forEach(([name, stats]) => {
+		if (sections.length > 1) {
+			lines.push('', `${name}:`);
+		}
+		([
+			['map', stats.byMap],
+			['gametype', stats.byGametype],
+			['version', stats.byVersion],
+			['custom map', stats.customMaps],
+		] as const).forEach(([title, buckets]) => {
+			if (buckets.length === 0) return;
+			lines.push('', ...renderRecords(buckets.slice(0, top).map(bucket => ({
+				[title]: bucket.name,
+				servers: bucket.servers,
+				players: bucket.players,
+			}))).map(line => `  ${line}`));
+		});
+	});
+
+	return lines.join('\n');
+}
+
+/** Stringifies a server setting change, in the same style as {@link eventString}. */
+function settingString(server: Server, time: string, change: SettingChange): string {
+	return `${time} ${server.address}:${server.port} ${change.key} changed from ` +
+		`${JSON.stringify(change.from)} to ${JSON.stringify(change.to)}`;
+}
+
+/** Stringifies everything that changed about a server. */
+function serverDiffLines(diff: ServerDiff, time: string): string[] {
+	return [
+		...diff.events.map(eventString),
+		...diff.settings.map(change => settingString(diff.server, time, change)),
+	];
+}
+
+/** Summarizes a server's state in one line. */
+function resultSummary(result: ParsedServerResult): string {
+	if (!isResponse(result)) {
+		return `${result.status} (${result.error})`;
+	}
+	const { hostname, mapname, gametype, numplayers, maxplayers } = result.data;
+	return `${JSON.stringify(hostname)} playing ${mapname} (${gametype}) ` +
+		`with ${numplayers}/${maxplayers} players`;
+}
+
+/** Picks which results to output based on the unreachable server options. */
+function selectResults<T extends ServerResult | ParsedServerResult>(
+	results: T[],
+	includeUnreachable: boolean,
+	onlyUnreachable: boolean,
+): T[] {
+	if (onlyUnreachable) {
+		return results.filter(result => !isResponse(result));
+	}
+	if (includeUnreachable) {
+		return results;
+	}
+	return results.filter(isResponse);
+}
+
+/** Drops responses that don't match the filter. Unreachable servers are kept. */
+function applyFilter<T extends ServerResult | ParsedServerResult>(
+	results: T[],
+	filter: ServerPredicate | undefined,
+	parseOpts?: ParseOpts,
+): T[] {
+	if (!filter) return results;
+	return results.filter(result => {
+		if (!isResponse(result)) return true;
+		const parsed = typeof result.data === 'string'
+			? parseServerResult(result as ServerResult, parseOpts)
+			: result as ParsedServerResult;
+		return isResponse(parsed) && filter(parsed.data);
+	});
+}
+
+/** Sorts results by ping, fastest first. Unreachable servers go last. */
+function sortByPing<T extends ServerResult | ParsedServerResult>(results: T[]): T[] {
+	const ping = (result: T): number => (
+		isResponse(result) ? result.ping : Number.POSITIVE_INFINITY
+	);
+	return [...results].sort((a, b) => ping(a) - ping(b));
+}
+
+/** Stringifies a monitor event as a human-readable line. */
+function eventString(event: MonitorEvent): string {
+	const prefix = `${event.time.toISOString()} ${event.server.address}:${event.server.port}`;
+	const change = (what: string, from: unknown, to: unknown): string => (
+		`${what} changed from ${JSON.stringify(from)} to ${JSON.stringify(to)}`
+	);
+
+	switch (event.type) {
+		case 'player_joined':     return `${prefix} ${JSON.stringify(event.player)} joined`;
+		case 'player_left':       return `${prefix} ${JSON.stringify(event.player)} left`;
+		case 'map_changed':       return `${prefix} ${change('map', event.from, event.to)}`;
+		case 'game_type_changed': return `${prefix} ${change('game type', event.from, event.to)}`;
+		case 'hostname_changed':  return `${prefix} ${change('hostname', event.from, event.to)}`;
+		case 'server_online':     return `${prefix} went online (${event.result.data.hostname})`;
+		case 'server_offline':    return `${prefix} went offline (${event.result.error})`;
+		case 'score_changed':     return `${prefix} ${change(
+			event.player !== undefined
+				? `${JSON.stringify(event.player)} score`
+				: `team ${event.team} score`,
+			event.from,
+			event.to,
+		)}`;
+	}
+}
+
+async function query(serverArgs: CLIServerArg[], _: unknown, command: Command) {
+	const printAddressOnly: boolean          = command.getOptionValue('addressOnly');
+	const prettyPrintJson: boolean           = command.getOptionValue('pretty');
+	const printRawText: boolean              = command.getOptionValue('raw');
+	const includeUnreachable: boolean        = command.getOptionValue('includeUnreachable');
+	const onlyUnreachable: boolean           = command.getOptionValue('onlyUnreachable');
+	const pingSamples: number | undefined    = command.getOptionValue('pingSamples');
+	const sortPing: boolean                  = command.getOptionValue('sortByPing');
+	const filter: ServerPredicate | undefined = command.getOptionValue('filter');
+	const printTable: boolean                = command.getOptionValue('table');
+	const format: 'csv' | 'ndjson' | undefined = command.getOptionValue('format');
+	const csvRows: CsvRows                   = command.getOptionValue('csvRows');
+	const recordDir: string | undefined      = command.getOptionValue('record');
+	const tableOpts: TableOpts = {
+		columns:           command.getOptionValue('columns'),
+		sortBy:            command.getOptionValue('sortBy'),
+		descending:        command.getOptionValue('descending'),
+		maxHostnameLength: command.getOptionValue('maxHostnameLength'),
+		players:           command.getOptionValue('showPlayers'),
+		teams:             command.getOptionValue('showTeams'),
+	};
+
+	const client = new HaloQuery({
+		...clientOpts(command),
+		pingSamples,
+		// Streamed output should wait for servers just as long as the rest.
+		queryDeadline: Number.POSITIVE_INFINITY,
+	});
 
 	let servers: Server[];
 	try {
-		servers = await resolveServers(
-			serverArgs.map(arg => typeof arg === 'string' ? arg : {
-				address: arg.address,
-				port: arg.port ?? defaultPort,
-			}),
-			{
-				host: msOverride?.address,
-				port: msOverride?.port,
-				timeout,
-			}
-		);
+		servers = await client.resolve(serverArgs);
 	} catch (err) {
 		console.error((err as Error).message);
-		process.exit(1);
+		process.exitCode = 1;
+		return;
 	}
 
+	/** Queries the servers, saving the results to the archive if asked to. */
+	const queryRaw = async (): Promise<ServerResult[]> => {
+		const results = await client.queryRaw(servers);
+		if (recordDir) {
+			try {
+				await saveSnapshot(recordDir, results);
+			} catch (err) {
+				// Still print the results, since the query itself worked.
+				console.error(`Failed to save snapshot: ${(err as Error).message}`);
+				process.exitCode = 1;
+			}
+		}
+		return results;
+	};
+
 	if (printAddressOnly) {
 		if (printRawText) {
 			servers.forEach(server => {
 				console.log(serverString(server));
 			});
 		}
+		else if (format === 'csv') {
+			console.log(serversToCsv(servers));
+		}
+		else if (format === 'ndjson') {
+			servers.forEach(server => {
+				console.log(JSON.stringify(server));
+			});
+		}
 		else {
 			if (prettyPrintJson) {
 				console.log(JSON.stringify(servers, null, 2));
@@ -159,20 +654,36 @@ async function main() {
 		}
 	}
 	else {
-		const responses = await queryServerInfo(servers);
-
 		if (printRawText) {
-			responses?.forEach(response => {
-				console.log(`${serverString(response)}${response.data}`);
+			let results = applyFilter(await queryRaw(), filter, client.parseOpts);
+			if (sortPing) results = sortByPing(results);
+			selectResults(results, includeUnreachable, onlyUnreachable).forEach(result => {
+				console.log(resultString(result));
 			});
 		}
+		else if (format === 'ndjson' && !sortPing && !recordDir) {
+			// Sorting and recording need every result up front, but otherwise
+			// we can print each server as soon as we hear back from it.
+			for await (const result of client.queryServersStream(servers)) {
+				selectResults(applyFilter([result], filter), includeUnreachable, onlyUnreachable)
+					.forEach(result => console.log(JSON.stringify(result)));
+			}
+		}
 		else {
-			const parsed = responses?.map(resp => ({
-				...resp,
-				data: parseServerInfo(resp.data as string),
-			}))
+			let parsed = selectResults(
+				applyFilter((await queryRaw()).map(result => parseServerResult(result, client.parseOpts)), filter),
+				includeUnreachable,
+				onlyUnreachable,
+			);
+			if (sortPing) parsed = sortByPing(parsed);
 
-			if (prettyPrintJson) {
+			if (printTable) {
+				console.log(renderTable(parsed, tableOpts));
+			} else if (format === 'csv') {
+				console.log(resultsToCsv(parsed, csvRows));
+			} else if (format === 'ndjson') {
+				parsed.forEach(result => console.log(JSON.stringify(result)));
+			} else if (prettyPrintJson) {
 				console.log(JSON.stringify(parsed, null, 2));
 			} else {
 				console.log(JSON.stringify(parsed));
@@ -180,4 +691,189 @@ async function main() {
 		}
 	}
 }
+
+async function watch(serverArgs: CLIServerArg[], _: unknown, command: Command) {
+	const interval: number = command.getOptionValue('interval');
+	const printJson: boolean = command.getOptionValue('json');
+
+	const monitor = new ServerMonitor(serverArgs, {
+		...clientOpts(command),
+		interval,
+	});
+
+	monitor.on('change', event => {
+		console.log(printJson ? JSON.stringify(event) : eventString(event));
+	});
+	monitor.on('error', err => {
+		console.error(err.message);
+	});
+
+	process.once('SIGINT', () => monitor.stop());
+	process.once('SIGTERM', () => monitor.stop());
+	monitor.start();
+}
+
+async function browse(serverArgs: CLIServerArg[], _: unknown, command: Command) {
+	const interval: number = command.getOptionValue('interval');
+
+	if (!process.stdin.isTTY || !process.stdout.isTTY) {
+		console.error('The server browser needs an interactive terminal.');
+		process.exit(1);
+	}
+
+	const browser = new ServerBrowser(serverArgs, {
+		...clientOpts(command),
+		interval,
+	});
+	await browser.run();
+}
+
+async function serve(serverArgs: CLIServerArg[], _: unknown, command: Command) {
+	const port: number = command.getOptionValue('port');
+	const host: string | undefined = command.getOptionValue('host');
+	const interval: number = command.getOptionValue('interval');
+
+	const api = new ApiServer(serverArgs, {
+		...clientOpts(command, 'gamePort'),
+		interval,
+	});
+
+	try {
+		const address = await api.listen(port, host);
+		console.error(`Listening on http://${address.address}:${address.port}`);
+	} catch (err) {
+		console.error((err as Error).message);
+		process.exit(1);
+	}
+
+	const shutdown = (): void => {
+		api.close();
+	};
+	process.once('SIGINT', shutdown);
+	process.once('SIGTERM', shutdown);
+}
+
+async function findPlayer(
+	name: string,
+	serverArgs: CLIServerArg[],
+	_: unknown,
+	command: Command,
+) {
+	const match: PlayerMatchMode = command.getOptionValue('match');
+	const printJson: boolean = command.getOptionValue('json');
+
+	const client = new HaloQuery(clientOpts(command));
+
+	let players;
+	try {
+		players = await client.findPlayer(serverArgs, name, { match });
+	} catch (err) {
+		console.error((err as Error).message);
+		process.exitCode = 1;
+		return;
+	}
+
+	if (printJson) {
+		console.log(JSON.stringify(players));
+	} else if (players.length > 0) {
+		console.log(renderRecords(players.map(player => ({
+			name: player.name,
+			score: player.score,
+			team: player.team,
+			server: `${player.server.address}:${player.server.port}`,
+			hostname: player.server.hostname,
+		}))).join('\n'));
+	} else {
+		console.error(`No players found matching ${name}`);
+	}
+
+	if (players.length === 0) {
+		process.exitCode = 1;
+	}
+}
+
+async function stats(serverArgs: CLIServerArg[], _: unknown, command: Command) {
+	const top: number = command.getOptionValue('top');
+	const prettyPrintJson: boolean = command.getOptionValue('pretty');
+	const printJson: boolean = command.getOptionValue('json') || prettyPrintJson;
+
+	const client = new HaloQuery(clientOpts(command));
+
+	let report: StatsReport;
+	try {
+		report = await client.stats(serverArgs);
+	} catch (err) {
+		console.error((err as Error).message);
+		process.exitCode = 1;
+		return;
+	}
+
+	if (printJson) {
+		console.log(JSON.stringify(report, null, prettyPrintJson ? 2 : undefined));
+	} else {
+		console.log(statsString(report, top));
+	}
+}
+
+async function diff(fileA: string, fileB: string, _: unknown, command: Command) {
+	const printJson: boolean = command.getOptionValue('json');
+
+	let changes: SnapshotDiff;
+	try {
+		changes = diffSnapshots(await loadSnapshot(fileA), await loadSnapshot(fileB));
+	} catch (err) {
+		console.error((err as Error).message);
+		process.exit(1);
+	}
+
+	if (printJson) {
+		console.log(JSON.stringify(changes));
+		return;
+	}
+
+	const lines = [
+		...changes.added.map(server => `${changes.to} ${server.address}:${server.port} appeared`),
+		...changes.removed.map(server => `${changes.to} ${server.address}:${server.port} disappeared`),
+		...changes.changed.flatMap(serverDiff => serverDiffLines(serverDiff, changes.to)),
+	];
+	console.log(lines.length > 0 ? lines.join('\n') : 'No changes');
+}
+
+async function history(server: CLIAddress, _: unknown, command: Command) {
+	const archive: string = command.getOptionValue('archive');
+	const printJson: boolean = command.getOptionValue('json');
+	const address = { address: server.address, port: server.port ?? DEFAULT_SERVER_PORT };
+
+	let entries: HistoryEntry[];
+	try {
+		entries = await serverHistory(archive, address);
+	} catch (err) {
+		console.error((err as Error).message);
+		process.exit(1);
+	}
+
+	if (printJson) {
+		console.log(JSON.stringify(entries));
+		return;
+	}
+	if (entries.length === 0) {
+		console.error(`No snapshots of ${address.address}:${address.port} in ${archive}`);
+		process.exitCode = 1;
+		return;
+	}
+
+	// Start with the full state, then only print what changed.
+	const [first, ...rest] = entries;
+	console.log(`${first.time} ${address.address}:${address.port} ${resultSummary(first.result)}`);
+	rest.forEach((entry, i) => {
+		const changes = diffResults(entries[i].result, entry.result, new Date(entry.time));
+		serverDiffLines(changes, entry.time).forEach(line => console.log(line));
+	});
+}
+
+/** Actions are async, so wait for whichever one runs to finish. */
+async function main(): Promise<void> {
+	await cliArgs.parseAsync(process.argv);
+}
+
 main();
@@ -0,0 +1,270 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import {
+	DEFAULT_MASTER_HOST,
+	DEFAULT_MASTER_PORT,
+	DEFAULT_MASTER_TIMEOUT_MS,
+	MasterServer,
+	MasterServerFetchOpts,
+} from './gamespy';
+import {
+	DEFAULT_DEADLINE_MS,
+	DEFAULT_SERVER_PORT,
+	ParsedServerResult,
+	Server,
+	ServerArg,
+	ServerResult,
+	parseServerResult,
+	queryServerInfo,
+	queryServerInfoStream,
+	resolveServers,
+} from './handler';
+import { QueryMetrics } from './metrics';
+import { DEFAULT_END_DELAY_MS, DEFAULT_TIMEOUT_MS, ServerAddress } from './network';
+import { FindPlayerOpts, PlayerMatch, findPlayers } from './players';
+import { ParseOpts } from './response';
+import { RetryPolicy, makeRetryPolicy } from './retry';
+import { StatsReport, computeStatsReport } from './stats';
+import { ThrottleOpts } from './throttle';
+import { TrafficOpts } from './traffic';
+import { QueryTransport } from './transport';
+
+/** Options shared by every request a {@link HaloQuery} client makes. */
+export interface HaloQueryOpts extends TrafficOpts {
+	/** Master server host. Defaults to {@link DEFAULT_MASTER_HOST}. */
+	masterHost?: string;
+	/** Master server TCP port. Defaults to {@link DEFAULT_MASTER_PORT}. */
+	masterPort?: number;
+	/** Master server request timeout in milliseconds. */
+	masterTimeout?: number;
+	/**
+	 * UDP port used for game server addresses that don't specify one.
+	 * Defaults to {@link DEFAULT_SERVER_PORT}.
+	 */
+	serverPort?: number;
+	/**
+	 * How long to wait (in milliseconds) for a game server to start
+	 * responding before giving up on (or retrying) the query.
+	 */
+	timeout?: number;
+	/**
+	 * How long to wait (in milliseconds) after the most recent game server
+	 * packet before we consider its response complete.
+	 */
+	endDelay?: number;
+	/**
+	 * Overall time limit (in milliseconds) for streaming queries. Use
+	 * `Infinity` for no limit. Defaults to {@link DEFAULT_DEADLINE_MS}.
+	 */
+	queryDeadline?: number;
+	/**
+	 * How many times to query each server to measure latency.
+	 * Defaults to 1.
+	 */
+	pingSamples?: number;
+	/**
+	 * How to retry master server fetches and game servers that don't respond.
+	 * By default, nothing is retried.
+	 */
+	retry?: Partial<RetryPolicy>;
+	/**
+	 * Limits on how fast game servers are queried, for large sweeps.
+	 * By default, every server is queried at once.
+	 */
+	throttle?: ThrottleOpts;
+	/**
+	 * A transport to send every game server query over. Useful for clients
+	 * that poll often, since they can keep one socket open. The caller owns
+	 * the transport and is responsible for closing it. By default, each
+	 * query opens (and closes) its own.
+	 */
+	transport?: QueryTransport;
+	/**
+	 * Collects health metrics (master server fetches and failures, query
+	 * timeouts) for every request this client makes.
+	 */
+	metrics?: QueryMetrics;
+	/**
+	 * Treat responses that are incomplete or malformed as unparseable, instead
+	 * of making the best of them. See {@link ParseOpts.strict}.
+	 */
+	strictParsing?: boolean;
+}
+
+/** A game server address where the port may be left to the client default. */
+export type TargetAddress = Omit<ServerAddress, 'port'> & {
+	port?: number;
+};
+
+/**
+ * Something the client can query. Either a game server address or the
+ * internal GameSpy name of a game (see {@link MasterServer}).
+ */
+export type Target = TargetAddress | MasterServer;
+
+/**
+ * A client for querying Halo master servers and game servers.
+ *
+ * This wraps the lower-level functions in this library with a shared set of
+ * defaults, so callers don't need to thread the same options through every
+ * call.
+ *
+ * ```ts
+ * const client = new HaloQuery({ timeout: 1000 });
+ * const results = await client.query(['halom', { address: '1.2.3.4' }]);
+ * const responses = results.filter(isResponse);
+ * ```
+ */
+export class HaloQuery {
+	readonly opts: Readonly<Required<Omit<HaloQueryOpts, 'transport' | 'metrics' | keyof TrafficOpts>>>;
+	readonly transport?: QueryTransport;
+	readonly metrics?: QueryMetrics;
+	readonly traffic: Readonly<TrafficOpts>;
+
+	constructor(opts?: HaloQueryOpts) {
+		this.transport = opts?.transport;
+		this.metrics = opts?.metrics;
+		this.traffic = Object.freeze({
+			recordTraffic: opts?.recordTraffic,
+			replayTraffic: opts?.replayTraffic,
+		});
+		this.opts = Object.freeze({
+			masterHost:      opts?.masterHost      ?? DEFAULT_MASTER_HOST,
+			masterPort:      opts?.masterPort      ?? DEFAULT_MASTER_PORT,
+			masterTimeout:   opts?.masterTimeout   ?? DEFAULT_MASTER_TIMEOUT_MS,
+			serverPort:      opts?.serverPort      ?? DEFAULT_SERVER_PORT,
+			timeout:         opts?.timeout         ?? DEFAULT_TIMEOUT_MS,
+			endDelay:        opts?.endDelay        ?? DEFAULT_END_DELAY_MS,
+			queryDeadline:   opts?.queryDeadline   ?? DEFAULT_DEADLINE_MS,
+			pingSamples:     opts?.pingSamples     ?? 1,
+			retry:           makeRetryPolicy(opts?.retry),
+			throttle:        { ...opts?.throttle },
+			strictParsing:   opts?.strictParsing   ?? false,
+		});
+	}
+
+	/** The options passed to master server fetches. */
+	private get masterOpts(): MasterServerFetchOpts {
+		return {
+			host: this.opts.masterHost,
+			port: this.opts.masterPort,
+			timeout: this.opts.masterTimeout,
+			retry: this.opts.retry,
+			metrics: this.metrics,
+			...this.traffic,
+		};
+	}
+
+	/** The options passed to response parsing. */
+	get parseOpts(): ParseOpts {
+		return { strict: this.opts.strictParsing };
+	}
+
+	/**
+	 * Resolves a mixed list of addresses and game names into a list of game
+	 * server addresses. Addresses without a port get {@link serverPort}.
+	 *
+	 * See {@link resolveServers}.
+	 */
+	async resolve(targets: Target[]): Promise<Server[]> {
+		const args: ServerArg[] = targets.map(target => (
+			typeof target === 'string' ? target : {
+				address: target.address,
+				port: target.port ?? this.opts.serverPort,
+			}
+		));
+		return resolveServers(args, this.masterOpts);
+	}
+
+	/** Fetches the addresses of all known servers for the given game. */
+	async getMasterServerList(game: MasterServer): Promise<Server[]> {
+		return this.resolve([game]);
+	}
+
+	/**
+	 * Queries the given game servers and returns their unparsed results.
+	 * Every server is included, with a status saying whether it responded.
+	 */
+	async queryRaw(servers: Server[]): Promise<ServerResult[]> {
+		return queryServerInfo(servers, {
+			...this.opts.throttle,
+			timeout: this.opts.timeout,
+			endDelay: this.opts.endDelay,
+			samples: this.opts.pingSamples,
+			retry: this.opts.retry,
+			transport: this.transport,
+			metrics: this.metrics,
+			...this.traffic,
+		});
+	}
+
+	/**
+	 * Queries the given game servers and returns their parsed results.
+	 * Every server is included, with a status saying whether it responded.
+	 * Use {@link isResponse} to filter out the ones that didn't.
+	 */
+	async queryServers(servers: Server[]): Promise<ParsedServerResult[]> {
+		const results = await this.queryRaw(servers);
+		return results.map(result => parseServerResult(result, this.parseOpts));
+	}
+
+	/**
+	 * Queries the given game servers and yields each parsed result as soon
+	 * as it is known. See {@link queryServerInfoStream}.
+	 */
+	async *queryServersStream(servers: Server[]): AsyncGenerator<ParsedServerResult> {
+		const results = queryServerInfoStream(servers, {
+			...this.opts.throttle,
+			deadline: this.opts.queryDeadline,
+			timeout: this.opts.timeout,
+			endDelay: this.opts.endDelay,
+			samples: this.opts.pingSamples,
+			retry: this.opts.retry,
+			transport: this.transport,
+			metrics: this.metrics,
+			...this.traffic,
+		});
+		for await (const result of results) {
+			yield parseServerResult(result, this.parseOpts);
+		}
+	}
+
+	/**
+	 * Resolves the given targets, then queries every resulting game server.
+	 * This is the whole pipeline in one call.
+	 */
+	async query(targets: Target[]): Promise<ParsedServerResult[]> {
+		return this.queryServers(await this.resolve(targets));
+	}
+
+	/**
+	 * Resolves the given targets, then streams each game server's parsed
+	 * result as soon as it is known.
+	 */
+	async *queryStream(targets: Target[]): AsyncGenerator<ParsedServerResult> {
+		yield* this.queryServersStream(await this.resolve(targets));
+	}
+
+	/**
+	 * Resolves the given targets, queries every resulting game server, and
+	 * searches their players for the given name. See {@link findPlayers}.
+	 */
+	async findPlayer(targets: Target[], name: string, opts?: FindPlayerOpts): Promise<PlayerMatch[]> {
+		return findPlayers(await this.query(targets), name, opts);
+	}
+
+	/**
+	 * Resolves the given targets, queries every resulting game server, and
+	 * aggregates the results, overall and for each master list.
+	 * See {@link computeStatsReport}.
+	 */
+	async stats(targets: Target[]): Promise<StatsReport> {
+		return computeStatsReport(await this.query(targets));
+	}
+}
@@ -0,0 +1,338 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { ParsedServerResponse, ParsedServerResult, isResponse } from './handler';
+import { ServerInfo } from './response';
+
+/** Decides whether a server's info is interesting. */
+export type ServerPredicate = (info: ServerInfo) => boolean;
+
+/** Thrown when a filter expression can't be parsed. */
+export class FilterSyntaxError extends Error {
+	/** Where in the expression the problem is. */
+	readonly position: number;
+
+	constructor(message: string, position: number) {
+		super(`${message} at position ${position}`);
+		this.name = 'FilterSyntaxError';
+		this.position = position;
+	}
+}
+
+type Operator = '==' | '!=' | '>' | '>=' | '<' | '<=' | '=~';
+type Literal = string | number | boolean | null;
+
+type Token =
+	| { kind: 'punct'; value: '(' | ')' | '&&' | '||' | '!'; pos: number }
+	| { kind: 'op'; value: Operator; pos: number }
+	| { kind: 'word'; value: string; quoted: boolean; pos: number };
+
+type Node =
+	| { kind: 'and' | 'or'; left: Node; right: Node }
+	| { kind: 'not'; operand: Node }
+	| { kind: 'truthy'; path: string[] }
+	| { kind: 'compare'; path: string[]; op: Operator; value: Literal; regex?: RegExp }
+	| { kind: 'compare_field'; path: string[]; op: Exclude<Operator, '=~'>; other: string[] };
+
+/** Longest first, so "==" isn't read as two "="s and ">=" isn't read as ">". */
+const SYMBOLS = ['&&', '||', '==', '!=', '>=', '<=', '=~', '>', '<', '!', '(', ')'];
+const OPERATORS: readonly string[] = ['==', '!=', '>', '>=', '<', '<=', '=~'];
+
+/** Anything that isn't whitespace, a quote, or part of a symbol. */
+const WORD_REGEX = /^[^\s()!&|=<>~"']+/;
+const NUMBER_REGEX = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Compiles a filter expression into a predicate for {@link ServerInfo}.
+ *
+ * Expressions compare fields of the server info to values, e.g.
+ * `numplayers>0 && mapname==bloodgulch && !password`.
+ * - Comparisons: `==`, `!=`, `>`, `>=`, `<`, `<=`, and `=~` (regex match).
+ *   String comparisons are case-insensitive.
+ * - A field on its own (or negated with `!`) tests whether it is set to
+ *   something other than `0`, an empty string, or an empty list.
+ * - Combine with `&&`, `||`, `!`, and parentheses.
+ * - Nested fields use dots, e.g. `game_flags_labels.game_type==CTF` or
+ *   `players.length>=4`.
+ * - Prefix a value with `$` to compare against another field, e.g.
+ *   `numplayers<$maxplayers`.
+ * - Values with spaces or symbols in them can be quoted with `'` or `"`.
+ */
+export function compileFilter(expression: string): ServerPredicate {
+	const parser = new Parser(tokenize(expression), expression.length);
+	const tree = parser.parse();
+	return info => evaluate(tree, info);
+}
+
+/**
+ * Filters a list of results down to the servers that responded and match the
+ * given filter (either an expression or a predicate). See {@link compileFilter}.
+ */
+export function filterResults(
+	results: ParsedServerResult[],
+	filter: string | ServerPredicate,
+): ParsedServerResponse[] {
+	const predicate = typeof filter === 'string' ? compileFilter(filter) : filter;
+	return results
+		.filter(isResponse)
+		.filter(result => predicate(result.data));
+}
+
+/** Splits a filter expression into tokens. */
+function tokenize(expression: string): Token[] {
+	const tokens: Token[] = [];
+	let pos = 0;
+
+	while (pos < expression.length) {
+		const rest = expression.substring(pos);
+		const symbol = SYMBOLS.find(sym => rest.startsWith(sym));
+		let match: RegExpExecArray | null;
+
+		if (/^\s/.test(rest)) {
+			pos++;
+		} else if (symbol) {
+			tokens.push(OPERATORS.includes(symbol)
+				? { kind: 'op', value: symbol as Operator, pos }
+				: { kind: 'punct', value: symbol as '(' | ')' | '&&' | '||' | '!', pos }
+			);
+			pos += symbol.length;
+		} else if (rest[0] === '"' || rest[0] === "'") {
+			const [value, length] = readQuoted(rest, pos);
+			tokens.push({ kind: 'word', value, quoted: true, pos });
+			pos += length;
+		} else if (match = WORD_REGEX.exec(rest)) {
+			tokens.push({ kind: 'word', value: match[0], quoted: false, pos });
+			pos += match[0].length;
+		} else {
+			throw new FilterSyntaxError(`Unexpected character "${rest[0]}"`, pos);
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Reads a quoted string from the start of `text`. Only the quote character
+ * can be escaped. Other backslashes are kept as-is, so regexes survive.
+ * Returns the unquoted value and how many characters were consumed.
+ */
+function readQuoted(text: string, pos: number): [string, number] {
+	const quote = text[0];
+	let value = '';
+
+	for (let i = 1; i < text.length; i++) {
+		if (text[i] === '\\' && text[i + 1] === quote) {
+			value += quote;
+			i++;
+		} else if (text[i] === quote) {
+			return [value, i + 1];
+		} else {
+			value += text[i];
+		}
+	}
+
+	throw new FilterSyntaxError('Unterminated string', pos);
+}
+
+/** A recursive-descent parser for the filter grammar. */
+class Parser {
+	private index = 0;
+
+	constructor(private tokens: Token[], private end: number) {}
+
+	parse(): Node {
+		if (this.tokens.length === 0) {
+			throw new FilterSyntaxError('Empty filter', 0);
+		}
+		const node = this.parseOr();
+		const extra = this.peek();
+		if (extra) {
+			throw new FilterSyntaxError(`Unexpected "${extra.value}"`, extra.pos);
+		}
+		return node;
+	}
+
+	private parseOr(): Node {
+		let node = this.parseAnd();
+		while (this.acceptPunct('||')) {
+			node = { kind: 'or', left: node, right: this.parseAnd() };
+		}
+		return node;
+	}
+
+	private parseAnd(): Node {
+		let node = this.parseNot();
+		while (this.acceptPunct('&&')) {
+			node = { kind: 'and', left: node, right: this.parseNot() };
+		}
+		return node;
+	}
+
+	private parseNot(): Node {
+		if (this.acceptPunct('!')) {
+			return { kind: 'not', operand: this.parseNot() };
+		}
+		return this.parsePrimary();
+	}
+
+	private parsePrimary(): Node {
+		if (this.acceptPunct('(')) {
+			const node = this.parseOr();
+			if (!this.acceptPunct(')')) {
+				throw new FilterSyntaxError('Expected ")"', this.peek()?.pos ?? this.end);
+			}
+			return node;
+		}
+
+		const field = this.next();
+		if (field?.kind !== 'word' || field.quoted) {
+			throw new FilterSyntaxError('Expected a field name', field?.pos ?? this.end);
+		}
+		const path = field.value.split('.');
+
+		const op = this.peek();
+		if (op?.kind !== 'op') {
+			return { kind: 'truthy', path };
+		}
+		this.index++;
+
+		const valueToken = this.next();
+		if (valueToken?.kind !== 'word') {
+			throw new FilterSyntaxError(
+				`Expected a value after "${op.value}"`,
+				valueToken?.pos ?? this.end,
+			);
+		}
+
+		if (!valueToken.quoted && valueToken.value.startsWith('$')) {
+			if (op.value === '=~') {
+				throw new FilterSyntaxError("Can't match a regex against a field", valueToken.pos);
+			}
+			const other = valueToken.value.substring(1).split('.');
+			return { kind: 'compare_field', path, op: op.value, other };
+		}
+
+		if (op.value === '=~') {
+			try {
+				const regex = new RegExp(valueToken.value, 'i');
+				return { kind: 'compare', path, op: op.value, value: valueToken.value, regex };
+			} catch (err) {
+				throw new FilterSyntaxError((err as Error).message, valueToken.pos);
+			}
+		}
+
+		return {
+			kind: 'compare',
+			path,
+			op: op.value,
+			value: valueToken.quoted ? valueToken.value : parseLiteral(valueToken.value),
+		};
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.index];
+	}
+
+	private next(): Token | undefined {
+		return this.tokens[this.index++];
+	}
+
+	private acceptPunct(value: string): boolean {
+		const token = this.peek();
+		if (token?.kind === 'punct' && token.value === value) {
+			this.index++;
+			return true;
+		}
+		return false;
+	}
+}
+
+/** Interprets an unquoted value. */
+function parseLiteral(value: string): Literal {
+	if (NUMBER_REGEX.test(value)) return Number.parseFloat(value);
+	if (value === 'true')  return true;
+	if (value === 'false') return false;
+	if (value === 'null')  return null;
+	return value;
+}
+
+function evaluate(node: Node, info: ServerInfo): boolean {
+	switch (node.kind) {
+		case 'and':    return evaluate(node.left, info) && evaluate(node.right, info);
+		case 'or':     return evaluate(node.left, info) || evaluate(node.right, info);
+		case 'not':    return !evaluate(node.operand, info);
+		case 'truthy': return isTruthy(lookup(info, node.path));
+		case 'compare':
+			return compare(lookup(info, node.path), node.op, node.value, node.regex);
+		case 'compare_field':
+			return compare(lookup(info, node.path), node.op, toLiteral(lookup(info, node.other)));
+	}
+}
+
+/** Follows a dotted field path through the info. */
+function lookup(info: ServerInfo, path: string[]): unknown {
+	return path.reduce<unknown>((value, key) => (
+		value !== null && typeof value === 'object'
+			? (value as Record<string, unknown>)[key]
+			: undefined
+	), info);
+}
+
+/** Narrows a field value down to something we can compare against. */
+function toLiteral(value: unknown): Literal {
+	if (value === undefined || typeof value === 'object') return null;
+	return value as Literal;
+}
+
+function isTruthy(value: unknown): boolean {
+	if (Array.isArray(value)) return value.length > 0;
+	return !!value;
+}
+
+function compare(actual: unknown, op: Operator, expected: Literal, regex?: RegExp): boolean {
+	if (op === '=~') {
+		return actual !== null && actual !== undefined && regex!.test(String(actual));
+	}
+
+	if (op === '==' || op === '!=') {
+		const equal = looseEquals(actual, expected);
+		return op === '==' ? equal : !equal;
+	}
+
+	// Ordering only makes sense for numbers.
+	const a = typeof actual === 'number' ? actual : Number.NaN;
+	const b = typeof expected === 'number' ? expected : Number.NaN;
+	if (Number.isNaN(a) || Number.isNaN(b)) return false;
+
+	switch (op) {
+		case '>':  return a > b;
+		case '>=': return a >= b;
+		case '<':  return a < b;
+		case '<=': return a <= b;
+	}
+}
+
+/**
+ * Compares numbers numerically, `true`/`false` by truthiness, `null` against
+ * missing values, and everything else as case-insensitive strings.
+ */
+function looseEquals(actual: unknown, expected: Literal): boolean {
+	if (expected === null) {
+		return actual === null || actual === undefined;
+	}
+	if (typeof expected === 'boolean') {
+		return isTruthy(actual) === expected;
+	}
+	if (actual === null || actual === undefined || typeof actual === 'object') {
+		return false;
+	}
+	if (typeof expected === 'number' && typeof actual === 'number') {
+		return actual === expected;
+	}
+	return String(actual).toLowerCase() === String(expected).toLowerCase();
+}
@@ -0,0 +1,147 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import type { GameFlags, PlayerFlags, VehicleFlags } from './response';
+
+/** A decoded flag field, labelled with what it means in game. */
+export type FlagLabels<T> = {
+	[K in keyof T]: string;
+};
+
+export type PlayerFlagLabels = FlagLabels<PlayerFlags>;
+export type VehicleFlagLabels = FlagLabels<VehicleFlags>;
+/** Every game type has `game_type`, plus the fields for that game type. */
+export type GameFlagLabels = { game_type: string } & Record<string, string>;
+
+/** Labels for a field, indexed by its value. */
+type LabelTable = Readonly<Record<number, string>>;
+
+const NO_YES: LabelTable = ['No', 'Yes'];
+/** For 2 bit fields where only the first bit means anything. */
+const NO_YES_PADDED: LabelTable = ['No', 'Yes', 'No', 'Yes'];
+const YES_NO_PADDED: LabelTable = ['Yes', 'No', 'Yes', 'No'];
+const OFF_ON: LabelTable = ['Off', 'On'];
+const PENALTY_TIMES: LabelTable = ['None', '5 seconds', '10 seconds', '15 seconds'];
+const BALL_TRAITS: LabelTable = ['None', 'Invisible', 'Extra damage', 'Damage resistant'];
+const VEHICLE_SETS: LabelTable = [
+	'Default', 'None', 'Warthogs', 'Ghosts', 'Scorpions', 'Rocket warthogs',
+	'Banshees', 'Gun turrets', 'Custom',
+];
+
+/**
+ * Names of each game type, by `game_type` value. 0 isn't a vanilla game type,
+ * but some server extensions use it for custom game types.
+ */
+export const GAME_TYPE_NAMES: LabelTable = Object.freeze([
+	'Custom', 'CTF', 'Slayer', 'Oddball', 'King of the Hill', 'Race',
+]);
+
+/** Names of each weapon set, by `weapon_set` value. */
+export const WEAPON_SET_NAMES: LabelTable = Object.freeze([
+	'Normal', 'Pistols', 'Rifles', 'Plasma', 'Sniper', 'No sniping',
+	'Rocket launchers', 'Shotguns', 'Short range', 'Human', 'Covenant',
+	'Classic', 'Heavy weapons',
+]);
+
+/* These follow the in-game settings menus, with help from Chaosvex's
+ * Halo-Status, which mapped out what each value means.
+ * https://github.com/Chaosvex/Halo-Status/blob/master/script/flags.php
+ */
+const PLAYER_FLAG_LABELS: Record<keyof PlayerFlags, LabelTable> = {
+	lives:                 ['Infinite', '1', '3', '5'],
+	health_percent:        ['50%', '100%', '150%', '200%', '300%', '400%'],
+	shields_enabled:       ['Yes', 'No'],
+	respawn_time:          ['Instant', '5 seconds', '10 seconds', '15 seconds'],
+	respawn_growth:        ['Off', '5 seconds', '10 seconds', '15 seconds'],
+	odd_man_out:           NO_YES,
+	invisible:             NO_YES,
+	suicide_penalty:       PENALTY_TIMES,
+	infinite_grenades:     NO_YES,
+	weapon_set:            WEAPON_SET_NAMES,
+	default_equipment:     ['Custom', 'Generic'],
+	indicator:             ['Motion tracker', 'Nav points', 'None'],
+	players_on_radar:      { 0: 'No', 1: 'All', 3: 'Friends' },
+	friend_indicators:     NO_YES,
+	friendly_fire:         ['Off', 'On', 'Shields only', 'Explosives only'],
+	friendly_fire_penalty: PENALTY_TIMES,
+	auto_balance:          NO_YES,
+};
+
+const VEHICLE_FLAG_LABELS: Record<keyof VehicleFlags, LabelTable> = {
+	respawn_time: ['Never', '30 seconds', '60 seconds', '90 seconds', '120 seconds', '180 seconds', '300 seconds'],
+	red_team:     VEHICLE_SETS,
+	blue_team:    VEHICLE_SETS,
+};
+
+/** Labels for the fields of each game type, by `game_type` value. */
+const GAME_FLAG_LABELS: Record<number, Record<string, LabelTable | null>> = {
+	1: {
+		assault:           NO_YES_PADDED,
+		flag_must_reset:   NO_YES,
+		flag_must_be_home: NO_YES,
+		single_flag_time:  ['Off', '1 minute', '2 minutes', '3 minutes', '4 minutes', '5 minutes'],
+	},
+	2: {
+		death_bonus:   YES_NO_PADDED,
+		kill_penalty:  ['Yes', 'No'],
+		kill_in_order: NO_YES,
+	},
+	3: {
+		random_start:       NO_YES_PADDED,
+		ball_speed_percent: ['Slow', 'Normal', 'Fast'],
+		trait_with_ball:    BALL_TRAITS,
+		trait_without_ball: BALL_TRAITS,
+		ball_type:          ['Normal', 'Reverse tag', 'Juggernaut'],
+		// This one's just a count.
+		num_balls:          null,
+	},
+	4: {
+		moving_hill: OFF_ON,
+	},
+	5: {
+		race_type:    ['Normal', 'Any order', 'Rally'],
+		team_scoring: ['Minimum', 'Maximum', 'Sum'],
+	},
+};
+
+/** Labels decoded player flags with their in-game meaning. */
+export function labelPlayerFlags(flags: PlayerFlags): PlayerFlagLabels {
+	return labelFields(flags, PLAYER_FLAG_LABELS) as PlayerFlagLabels;
+}
+
+/** Labels decoded vehicle flags with their in-game meaning. */
+export function labelVehicleFlags(flags: VehicleFlags): VehicleFlagLabels {
+	return labelFields(flags, VEHICLE_FLAG_LABELS) as VehicleFlagLabels;
+}
+
+/** Labels decoded game flags with their in-game meaning, game type included. */
+export function labelGameFlags(flags: GameFlags): GameFlagLabels {
+	const { game_type, ...rest } = flags;
+	return {
+		game_type: label(GAME_TYPE_NAMES, game_type),
+		...labelFields(rest, GAME_FLAG_LABELS[game_type] ?? {}),
+	};
+}
+
+function labelFields(
+	flags: Record<string, number>,
+	tables: Record<string, LabelTable | null>,
+): Record<string, string> {
+	return Object.fromEntries(Object.entries(flags).map(([name, value]) => (
+		[name, label(tables[name], value)]
+	)));
+}
+
+/**
+ * Looks up a value's label. Values without a table are shown as-is, and
+ * values the table doesn't cover are marked as unknown.
+ */
+function label(table: LabelTable | null | undefined, value: number): string {
+	if (!table) return String(value);
+	return table[value] ?? `Unknown (${value})`;
+}
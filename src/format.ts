@@ -0,0 +1,116 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { ParsedServerResult, Server, isResponse } from './handler';
+
+/**
+ * What each CSV row describes.
+ * - `server`: One row per server. Players and teams are flattened into
+ *   columns like `players.0.playername`.
+ * - `player`: One row per player, alongside the info of the server they're on.
+ *   Servers without players (or that didn't respond) are left out.
+ */
+export type CsvRows = 'server' | 'player';
+
+type Row = Map<string, unknown>;
+
+/** Columns every per-server CSV row starts with. */
+const RESULT_COLUMNS = ['game', 'address', 'port', 'status', 'attempts', 'ping', 'error'];
+/** Columns every per-player CSV row starts with. */
+const PLAYER_SERVER_COLUMNS = ['game', 'address', 'port'];
+/** Server info fields that hold nested lists, rather than scalar values. */
+const LIST_FIELDS = ['players', 'teams'];
+
+/**
+ * Formats query results as CSV, with a header row. The columns are the union
+ * of every result's fields, in the order they're first seen. Nested objects
+ * (like the decoded flags) are flattened into dotted column names.
+ */
+export function resultsToCsv(results: ParsedServerResult[], rows: CsvRows = 'server'): string {
+	return rows === 'player'
+		? toCsv(results.flatMap(playerRows), PLAYER_SERVER_COLUMNS)
+		: toCsv(results.map(serverRow), RESULT_COLUMNS);
+}
+
+/** Formats a list of server addresses as CSV, with a header row. */
+export function serversToCsv(servers: Server[]): string {
+	return toCsv(servers.map(server => new Map<string, unknown>([
+		['game', server.game],
+		['address', server.address],
+		['port', server.port],
+	])), PLAYER_SERVER_COLUMNS);
+}
+
+/** Flattens a result into a single row. */
+function serverRow(result: ParsedServerResult): Row {
+	const row: Row = new Map();
+	const { data, ...rest } = result;
+
+	Object.entries(rest).forEach(([key, value]) => flatten(row, key, value));
+	if (isResponse(result)) {
+		Object.entries(result.data).forEach(([key, value]) => flatten(row, key, value));
+	} else {
+		row.set('data', data);
+	}
+
+	return row;
+}
+
+/** Flattens a result into one row per player. */
+function playerRows(result: ParsedServerResult): Row[] {
+	if (!isResponse(result)) return [];
+
+	const server: Row = new Map<string, unknown>([
+		['game', result.game],
+		['address', result.address],
+		['port', result.port],
+	]);
+	Object.entries(result.data)
+		.filter(([key]) => !LIST_FIELDS.includes(key))
+		.forEach(([key, value]) => flatten(server, key, value));
+
+	return (result.data.players ?? [])
+		.filter(player => player)
+		.map(player => {
+			const row = new Map(server);
+			Object.entries(player).forEach(([key, value]) => flatten(row, `player.${key}`, value));
+			return row;
+		});
+}
+
+/** Adds a value to the row, flattening objects and arrays into dotted keys. */
+function flatten(row: Row, key: string, value: unknown): void {
+	if (value !== null && typeof value === 'object') {
+		Object.entries(value).forEach(([subKey, subValue]) => {
+			flatten(row, `${key}.${subKey}`, subValue);
+		});
+	} else {
+		row.set(key, value);
+	}
+}
+
+/**
+ * Writes rows out as CSV. The given leading columns always come first, even
+ * if no row has them, followed by every other column in the order seen.
+ */
+function toCsv(rows: Row[], leading: string[]): string {
+	const columns = new Set(leading);
+	rows.forEach(row => row.forEach((_, key) => columns.add(key)));
+
+	const header = Array.from(columns);
+	return [
+		header.map(escapeCsv).join(','),
+		...rows.map(row => header.map(column => escapeCsv(row.get(column))).join(',')),
+	].join('\n');
+}
+
+/** Quotes a CSV field if it contains anything that would break the format. */
+function escapeCsv(value: unknown): string {
+	const text = value === null || value === undefined ? '' : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
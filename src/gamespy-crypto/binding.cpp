@@ -13,6 +13,9 @@ extern "C" {
 	#include "enctypex_decoder.h"
 }
 
+/** Size of the header enctypex_quick_encrypt prepends to the data. */
+#define ENCTYPEX_HEADER_SIZE 23
+
 void error(Napi::Env& env, const char* msg) {
 	Napi::TypeError::New(env, msg).ThrowAsJavaScriptException();
 }
@@ -66,11 +69,62 @@ Napi::Value Decryptx(const Napi::CallbackInfo& info) {
 	);
 }
 
+Napi::Value Encryptx(const Napi::CallbackInfo& info) {
+	Napi::Env env = info.Env();
+
+	if (info.Length() < 3) {
+		error(env, "Expected 3 arguments");
+	}
+
+	if (!info[0].IsString()) {
+		error(env, "Expected key to be a string");
+	}
+
+	if (!info[1].IsString()) {
+		error(env, "Expected validate to be a string");
+	}
+
+	if (!info[2].IsBuffer()) {
+		error(env, "Expected data to be a Buffer");
+	}
+
+	std::string  key      = info[0].As<Napi::String>().Utf8Value();
+	std::string  validate = info[1].As<Napi::String>().Utf8Value();
+	Napi::Buffer data     = info[2].As<Napi::Buffer<char>>();
+
+	// The encryption code uses strlen on the key and validate values, so
+	// unlike decryption, these copies need to keep their null terminators.
+	// The data buffer also needs room for the 23 byte header the encryption
+	// prepends to the data.
+	unsigned char mutable_key[key.size() + 1];
+	unsigned char mutable_validate[validate.size() + 1];
+	unsigned char mutable_data[data.Length() + ENCTYPEX_HEADER_SIZE];
+
+	memcpy(mutable_key, key.c_str(), key.size() + 1);
+	memcpy(mutable_validate, validate.c_str(), validate.size() + 1);
+	memcpy(mutable_data, data.Data(), data.Length());
+
+	int end_size = enctypex_quick_encrypt(
+		mutable_key,
+		mutable_validate,
+		mutable_data,
+		data.Length()
+	);
+
+	return Napi::Buffer<char>::Copy(
+		env, reinterpret_cast<const char*>(mutable_data), end_size
+	);
+}
+
 Napi::Object Init(Napi::Env env, Napi::Object exports) {
 	exports.Set(
 		Napi::String::New(env, "decryptx"),
 		Napi::Function::New(env, Decryptx)
 	);
+	exports.Set(
+		Napi::String::New(env, "encryptx"),
+		Napi::Function::New(env, Encryptx)
+	);
 	return exports;
 }
 
@@ -10,5 +10,6 @@
 #define ENCTYPEX_H
 
 int enctypex_wrapper(unsigned char *key, unsigned char *validate, unsigned char *data, int size);
+int enctypex_quick_encrypt(unsigned char *key, unsigned char *validate, unsigned char *data, int size);
 
 #endif
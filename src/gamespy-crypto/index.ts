@@ -26,3 +26,19 @@ const gamespy = require('../../build/Release/gamespy.node');
 export function decryptx(gameKey: string, validateKey: string, data: Buffer): Buffer | null {
 	return gamespy.decryptx(gameKey, validateKey, data);
 }
+
+/**
+ * Encrypts a blob of data the same way the GameSpy master server does.
+ *
+ * This is the inverse of {@link decryptx}, and uses ALuigi's "enctypex"
+ * encryption implementation. Real clients never need this, but it lets us
+ * produce master server responses locally (e.g. for a mock master server).
+ *
+ * @param gameKey The encryption key for the specific game.
+ * @param validateKey The one-time key the client sent with its request.
+ * @param data The plain data to encrypt.
+ * @returns A Buffer containing the encrypted data.
+ */
+export function encryptx(gameKey: string, validateKey: string, data: Buffer): Buffer {
+	return gamespy.encryptx(gameKey, validateKey, data);
+}
@@ -7,11 +7,14 @@
  * for more information.
  ******************************************************************************/
 import { decryptx } from './gamespy-crypto';
+import type { MasterFailureReason, QueryMetrics } from './metrics';
 import { ServerAddress, TCPClient } from './network';
+import { RetryPolicy, makeRetryPolicy, withRetry } from './retry';
+import type { TrafficOpts } from './traffic';
 
-const DEFAULT_MASTER_HOST = 'hosthpc.com';
-const DEFAULT_MASTER_PORT = 28910;
-const DEFAULT_TIMEOUT_MS = 3000;
+export const DEFAULT_MASTER_HOST = 'hosthpc.com';
+export const DEFAULT_MASTER_PORT = 28910;
+export const DEFAULT_MASTER_TIMEOUT_MS = 3000;
 
 /** The end of the data is denoted by an IP matching this value. */
 const DATA_END_IP_SENTINEL = '255.255.255.255';
@@ -19,6 +22,18 @@ const DATA_END_IP_SENTINEL = '255.255.255.255';
 /** Encoded IP/port data. 4 bytes for IP, 2 bytes for port. */
 const IP_PORT_LEN = 6;
 
+/** The master server sends this as the "common port" to signal an error. */
+export const ERROR_PORT = 0xFFFF;
+
+/**
+ * No idea what this actually means, but it gets us the list of
+ * server IPs and ports so whatever.
+ */
+const QUERY_SETTINGS = [1, 3, 0, 0, 0, 0];
+
+/** Offset of the first null-terminated string in a server list query. */
+const QUERY_HEADER_LEN = 3 + QUERY_SETTINGS.length;
+
 export enum GameKeys {
 	halo     = 'QW88cv',
 	halod    = 'yG3d9w',
@@ -29,7 +44,7 @@ export enum GameKeys {
 }
 export type MasterServer = keyof typeof GameKeys;
 
-interface DecodedData {
+export interface DecodedData {
 	requestIp: string;
 	commonPort: number;
 	unknown1: string;
@@ -37,10 +52,23 @@ interface DecodedData {
 	servers: ServerAddress[];
 }
 
-export interface MasterServerFetchOpts {
+export interface MasterServerRequest {
+	game: string;
+	subGame: string;
+	validationKey: string;
+}
+
+export interface MasterServerFetchOpts extends TrafficOpts {
 	host?: string;
 	port?: number;
 	timeout?: number;
+	/**
+	 * How to retry failed connections, timeouts, and responses that can't be
+	 * decrypted. By default, the fetch is only attempted once.
+	 */
+	retry?: Partial<RetryPolicy>;
+	/** Records fetch durations, server counts and failures. */
+	metrics?: QueryMetrics;
 }
 
 /**
@@ -70,35 +98,91 @@ export async function getMasterServerList(
 		throw new Error(`Unsupported game key: ${game}`);
 	}
 
-	const client = new TCPClient();
-	client.setTimeout(opts?.timeout ?? DEFAULT_TIMEOUT_MS);
+	const start = Date.now();
+	const decryptedResponse = await withRetry(
+		makeRetryPolicy(opts?.retry),
+		() => fetchMasterServerList(game, opts),
+	);
+
+	let decodedResponse: DecodedData | null;
 	try {
-		await client.connect({
-			host: opts?.host ?? DEFAULT_MASTER_HOST,
-			port: opts?.port ?? DEFAULT_MASTER_PORT,
-		});
+		decodedResponse = decodeMasterServerResponse(decryptedResponse);
 	} catch (err) {
-		throw new Error(`Failed to query master server: ${(err as Error).message}`);
+		opts?.metrics?.recordMasterFailure(game, 'decode');
+		throw err;
+	}
+	if (!decodedResponse) {
+		opts?.metrics?.recordMasterFailure(game, 'decode');
+		throw new Error('Failed to decode master server response!');
 	}
 
+	opts?.metrics?.recordMasterFetch(game, Date.now() - start, decodedResponse.servers.length);
+	return decodedResponse.servers;
+}
+
+/**
+ * Makes a single request to the master server (or replays a recorded one) and
+ * decrypts the response. Every error thrown by this function is worth retrying.
+ */
+async function fetchMasterServerList(
+	game: string,
+	opts?: MasterServerFetchOpts,
+): Promise<Buffer> {
 	const gameKey = GameKeys[game as keyof typeof GameKeys];
+	const fail = (reason: MasterFailureReason, message: string): Error => {
+		opts?.metrics?.recordMasterFailure(game, reason);
+		return new Error(message);
+	};
+
+	if (opts?.replayTraffic) {
+		const exchange = opts.replayTraffic.nextMasterExchange(game);
+		if (exchange.response === undefined) {
+			throw fail('request', exchange.error ?? 'Failed to query master server');
+		}
+		const decryptedResponse = decryptx(
+			gameKey, exchange.validationKey, Buffer.from(exchange.response, 'base64'),
+		);
+		if (!decryptedResponse) {
+			throw fail('decrypt', 'Failed to decrypt master server response!');
+		}
+		return decryptedResponse;
+	}
+
+	const client = new TCPClient();
+	client.setTimeout(opts?.timeout ?? DEFAULT_MASTER_TIMEOUT_MS);
 	const validationKey = makeValidationKey();
 
-	const query = encodeMasterServerRequest(game, validationKey);
-	const encryptedResponse = await client.request(query);
-	client.close();
+	try {
+		try {
+			await client.connect({
+				host: opts?.host ?? DEFAULT_MASTER_HOST,
+				port: opts?.port ?? DEFAULT_MASTER_PORT,
+			});
+		} catch (err) {
+			const error = fail('connect', `Failed to query master server: ${(err as Error).message}`);
+			opts?.recordTraffic?.recordMaster(game, validationKey, error);
+			throw error;
+		}
 
-	const decryptedResponse = decryptx(gameKey, validationKey, encryptedResponse);
-	if (!decryptedResponse) {
-		throw new Error('Failed to decrypt master server response!');
-	}
+		const query = encodeMasterServerRequest(game, validationKey);
+		let encryptedResponse: Buffer;
+		try {
+			encryptedResponse = await client.request(query);
+		} catch (err) {
+			opts?.recordTraffic?.recordMaster(game, validationKey, err as Error);
+			throw fail('request', (err as Error).message);
+		}
+		opts?.recordTraffic?.recordMaster(game, validationKey, encryptedResponse);
 
-	const decodedResponse = decodeMasterServerResponse(decryptedResponse);
-	if (!decodedResponse) {
-		throw new Error('Failed to decode master server response!');
-	}
+		const decryptedResponse = decryptx(gameKey, validationKey, encryptedResponse);
+		if (!decryptedResponse) {
+			throw fail('decrypt', 'Failed to decrypt master server response!');
+		}
 
-	return decodedResponse.servers;
+		return decryptedResponse;
+	} finally {
+		client.close();
+	}
 }
 
 /** Converts the given string into a null-terminated byte array. */
@@ -122,14 +206,10 @@ function cstring(str: string): number[] {
  * For the curious, we give the game name twice because GameSpy supports
  * querying a different "sub-game", but Halo doesn't use that feature.
  */
-function encodeMasterServerRequest(
+export function encodeMasterServerRequest(
 	game: string,
 	validationKey: string,
 ): Uint8Array {
-	// No idea what this actually means, but it gets us the list of
-	// server IPs and ports so whatever.
-	const QUERY_SETTINGS = [1, 3, 0, 0, 0, 0];
-
 	const data = [
 		0, // Padding
 		0, // Replaced with message length later
@@ -146,6 +226,33 @@ function encodeMasterServerRequest(
 	return new Uint8Array(data);
 }
 
+/**
+ * Decodes a server list query built by {@link encodeMasterServerRequest}.
+ * This is what the master server does on its end.
+ *
+ * Returns `null` if the data is shorter than its encoded length, or is
+ * missing any of its strings.
+ */
+export function decodeMasterServerRequest(data: Buffer): MasterServerRequest | null {
+	if (data.length < QUERY_HEADER_LEN || data.length < data[1]) {
+		return null;
+	}
+
+	const strings: string[] = [];
+	let scanner = QUERY_HEADER_LEN;
+	while (strings.length < 3) {
+		const end = data.indexOf(0, scanner);
+		if (end === -1 || end >= data[1]) {
+			return null;
+		}
+		strings.push(extractCString(data.subarray(scanner)));
+		scanner = end + 1;
+	}
+
+	const [game, subGame, validationKey] = strings;
+	return { game, subGame, validationKey };
+}
+
 /**
  * Decodes the given *decrypted* byte array of GameSpy data into a usable form.
  * NOTE: Assumes the data is already decrypted! See {@link decryptx}.
@@ -169,7 +276,7 @@ function encodeMasterServerRequest(
  *       code just skips over them.
  * @param data A decrypted response from the GameSpy master server.
  */
-function decodeMasterServerResponse(data: Buffer): DecodedData | null {
+export function decodeMasterServerResponse(data: Buffer): DecodedData | null {
 	if (data.length < IP_PORT_LEN) {
 		return null;
 	}
@@ -183,7 +290,7 @@ function decodeMasterServerResponse(data: Buffer): DecodedData | null {
 	} = extractAddress(data.subarray(scanner, IP_PORT_LEN));
 	scanner += IP_PORT_LEN;
 
-	if (commonPort === 0xFFFF) {
+	if (commonPort === ERROR_PORT) {
 		throw new Error('GameSpy master server request error');
 	}
 
@@ -230,6 +337,48 @@ function decodeMasterServerResponse(data: Buffer): DecodedData | null {
 	};
 }
 
+/**
+ * Encodes a *decrypted* master server response. This is the inverse of
+ * {@link decodeMasterServerResponse}, and what the master server does on its
+ * end before encrypting the data with the enctypex scheme.
+ *
+ * Both "static data" strings are written empty, and every server is written
+ * with flags {@link Flags.A} and {@link Flags.C}, because that combination is
+ * laid out the same way by both this library and the original C decoder.
+ * The 4 bytes of unknown data are filled with the server's IP.
+ *
+ * @param data The response to encode. The `unknown` strings are ignored.
+ */
+export function encodeMasterServerResponse(
+	data: Omit<DecodedData, 'unknown1' | 'unknown2'>,
+): Buffer {
+	const SERVER_FLAGS = Flags.A | Flags.C;
+
+	const bytes = [
+		...encodeAddress({ address: data.requestIp, port: data.commonPort }),
+		0, // unknown1
+		0, // unknown2
+	];
+
+	for (const server of data.servers) {
+		const encoded = encodeAddress(server);
+		bytes.push(SERVER_FLAGS, ...encoded, ...encoded.slice(0, 4));
+	}
+
+	bytes.push(0, ...encodeAddress({ address: DATA_END_IP_SENTINEL, port: 0 }));
+
+	return Buffer.from(bytes);
+}
+
+/** Encodes an IP and port into a byte array. Inverse of {@link extractAddress}. */
+function encodeAddress(server: ServerAddress): number[] {
+	const ip = server.address.split('.').map(num => Number.parseInt(num));
+	if (ip.length !== 4 || ip.some(num => Number.isNaN(num) || num > 0xFF)) {
+		throw new Error(`Invalid IPv4 address: ${server.address}`);
+	}
+	return [...ip, (server.port >> 8) & 0xFF, server.port & 0xFF];
+}
+
 /** Extracts an IP and port from the given byte array. */
 function extractAddress(slice: Buffer): ServerAddress {
 	const [ip1, ip2, ip3, ip4, port1, port2] = slice;
@@ -12,15 +12,131 @@ import {
 	MasterServerFetchOpts,
 	getMasterServerList,
 } from './gamespy';
-import { ServerAddress, UDPClient } from './network';
+import type { QueryMetrics } from './metrics';
+import { ServerAddress } from './network';
+import { AsyncQueue } from './queue';
+import { reassemblePackets } from './reassembly';
+import { ParseOpts, ServerInfo, parseServerInfo } from './response';
+import { RetryPolicy, makeRetryPolicy, retryDelay, sleep } from './retry';
+import { Throttle, ThrottleOpts } from './throttle';
+import type { TrafficOpts } from './traffic';
+import {
+	INFO_QUERY,
+	QueryAbortError,
+	QueryTimeoutError,
+	QueryTransport,
+	addressKey,
+} from './transport';
+
+/** The default UDP port Halo dedicated servers listen on. */
+export const DEFAULT_SERVER_PORT = 2302;
+
+/** How long a streaming query waits for all servers before giving up. */
+export const DEFAULT_DEADLINE_MS = 3000;
 
 export type ServerArg = ServerAddress | MasterServer;
 export type Server = ServerAddress & {
 	game: string | null;
 };
+
+/** The outcome of querying a single game server. */
+export enum QueryStatus {
+	/** The server sent a response. */
+	Responded = 'responded',
+	/** The server never responded. */
+	TimedOut = 'timed_out',
+	/** The server responded, but with something we couldn't parse. */
+	Unparseable = 'unparseable',
+	/** The query couldn't be sent, or the socket reported an error. */
+	Error = 'error',
+}
+
+/** Round-trip time statistics from several queries to one server. */
+export interface Latency {
+	/** Every measured round-trip time, in milliseconds. */
+	samples: number[];
+	min: number;
+	max: number;
+	avg: number;
+	/** Mean difference between consecutive samples. */
+	jitter: number;
+}
+
+/** A game server that responded to our query. */
 export type ServerResponse = Server & {
+	status: QueryStatus.Responded;
+	/** How many queries were sent to the server. */
+	attempts: number;
+	/**
+	 * Round-trip time in milliseconds, from sending the query to receiving
+	 * the first packet of the response.
+	 */
+	ping: number;
+	/** Latency statistics. Only present when several samples were taken. */
+	latency?: Latency;
 	data: string | Record<string, unknown>;
 }
+export type ParsedServerResponse = Omit<ServerResponse, 'data'> & {
+	data: ServerInfo;
+}
+
+/** A game server that we failed to get a usable response from. */
+export type ServerFailure = Server & {
+	status: Exclude<QueryStatus, QueryStatus.Responded>;
+	/** How many queries were sent to the server. */
+	attempts: number;
+	/** Whatever the server sent, if anything (e.g. an unparseable response). */
+	data: string | null;
+	/** A human-readable explanation of what went wrong. */
+	error: string;
+}
+
+export type ServerResult = ServerResponse | ServerFailure;
+export type ParsedServerResult = ParsedServerResponse | ServerFailure;
+
+export interface QueryOpts extends ThrottleOpts, TrafficOpts {
+	/**
+	 * How long to wait (in milliseconds) for a server to start responding
+	 * before giving up on (or retrying) the query.
+	 */
+	timeout?: number;
+	/**
+	 * How long to wait (in milliseconds) after a server's most recent packet
+	 * before considering its response complete. Responses containing the
+	 * `\final\` marker are considered complete immediately.
+	 */
+	endDelay?: number;
+	/**
+	 * How many times to query each server to measure latency. Samples are
+	 * taken one after another, so this multiplies the query time.
+	 * Defaults to 1.
+	 */
+	samples?: number;
+	/**
+	 * How to resend queries to servers that haven't responded.
+	 * By default, each server is only queried once.
+	 */
+	retry?: Partial<RetryPolicy>;
+	/**
+	 * The transport to send queries over. Pass one in to share a single
+	 * socket between many queries. By default, a new transport is opened
+	 * for the query and closed when it finishes. The {@link TrafficOpts}
+	 * only apply to transports opened this way.
+	 */
+	transport?: QueryTransport;
+	/** Records queries that time out. */
+	metrics?: QueryMetrics;
+}
+
+export interface StreamQueryOpts extends QueryOpts {
+	/**
+	 * Overall time limit for the query in milliseconds. Once this passes,
+	 * any partially received responses are yielded, every other server is
+	 * yielded as timed out, and the stream ends. Use `Infinity` to wait for
+	 * every server, however long that takes.
+	 */
+	deadline?: number;
+}
 
 /**
  * Resolves a mixed list of addresses and master server names into a list of
@@ -62,31 +178,240 @@ export async function resolveServers(
 	return servers;
 }
 
-/** Queries info from the given game servers. */
+/**
+ * Queries info from the given game servers.
+ *
+ * Every given server appears in the result, in the same order, with a
+ * {@link QueryStatus} describing what happened. Responses from servers that
+ * weren't queried are ignored.
+ */
 export async function queryServerInfo(
 	servers: Server[],
-	timeout?: number,
-): Promise<ServerResponse[] | null> {
-	// Need map of ip:port -> game so we can map UDP responses to game.
-	// The key is in the same format returned by UDPClient::readAll.
-	const addressGameMap = servers.reduce((map, server) => {
-		return map.set(`${server.address}:${server.port}`, server.game);
-	}, new Map<string, string | null>());
-
-	const client = new UDPClient();
-
-	await Promise.all(servers.map(async (server) => (
-		// Game servers recognize a single backslash as an info query.
-		client.write(server.address, server.port, '\\')
-	)));
-	const responses = await client.readAll(timeout);
-
-	client.close();
-
-	return responses?.map(response => ({
-		address: response.address,
-		port: response.port,
-		data: response.data.toString(),
-		game: addressGameMap.get(`${response.address}:${response.port}`) ?? null,
-	})) ?? null;
+	opts?: QueryOpts,
+): Promise<ServerResult[]> {
+	const transport = opts?.transport ?? new QueryTransport(opts);
+	try {
+		return await queryServers(servers, transport, opts);
+	} finally {
+		if (!opts?.transport) transport.close();
+	}
+}
+
+/**
+ * Queries info from the given game servers, yielding each server's result
+ * as soon as it is known.
+ *
+ * Unlike {@link queryServerInfo}, this doesn't wait for every server to
+ * finish before returning anything. The stream ends once every server has a
+ * result, or once the deadline passes, whichever comes first.
+ */
+export async function* queryServerInfoStream(
+	servers: Server[],
+	opts?: StreamQueryOpts,
+): AsyncGenerator<ServerResult> {
+	const transport = opts?.transport ?? new QueryTransport(opts);
+	const queue = new AsyncQueue<ServerResult>();
+	const abort = new AbortController();
+
+	const deadlineMs = opts?.deadline ?? DEFAULT_DEADLINE_MS;
+	const deadline = Number.isFinite(deadlineMs)
+		? setTimeout(() => abort.abort(), deadlineMs)
+		: undefined;
+
+	queryServers(servers, transport, opts, abort.signal, result => queue.push(result))
+		.then(() => queue.end())
+		.catch(err => queue.fail(err));
+
+	try {
+		yield* queue;
+	} finally {
+		abort.abort();
+		clearTimeout(deadline);
+		if (!opts?.transport) transport.close();
+	}
+}
+
+/**
+ * Parses the data of a query result with {@link parseServerInfo}.
+ *
+ * Responses that can't be parsed are turned into failures with the
+ * {@link QueryStatus.Unparseable} status. Failures are returned as-is.
+ * In strict mode, so are responses that only parse with some guesswork
+ * (see {@link ParseOpts.strict}).
+ */
+export function parseServerResult(result: ServerResult, opts?: ParseOpts): ParsedServerResult {
+	if (result.status !== QueryStatus.Responded) {
+		return result;
+	}
+
+	const raw = result.data as string;
+	if (!raw.includes('gamever')) {
+		return makeFailure(
+			result, QueryStatus.Unparseable, 'Response is missing gamever', result.attempts, raw,
+		);
+	}
+
+	try {
+		return { ...result, data: parseServerInfo(raw, opts) };
+	} catch (err) {
+		return makeFailure(
+			result, QueryStatus.Unparseable, (err as Error).message, result.attempts, raw,
+		);
+	}
+}
+
+/**
+ * Type guard for filtering a list of results down to the servers that
+ * responded.
+ */
+export function isResponse<T extends ServerResult | ParsedServerResult>(
+	result: T,
+): result is Extract<T, { status: QueryStatus.Responded }> {
+	return result.status === QueryStatus.Responded;
+}
+
+/**
+ * Queries each of the given servers over the transport, respecting any
+ * {@link ThrottleOpts}. Each result is passed to `onResult` as soon as it is
+ * known, and all of them are returned in the same order as the servers.
+ */
+async function queryServers(
+	servers: Server[],
+	transport: QueryTransport,
+	opts?: QueryOpts,
+	signal?: AbortSignal,
+	onResult?: (result: ServerResult) => void,
+): Promise<ServerResult[]> {
+	const throttle = new Throttle(opts);
+	const batchSize = opts?.batchSize || servers.length;
+	const results: ServerResult[] = [];
+
+	for (let i = 0; i < servers.length; i += batchSize) {
+		const batch = await Promise.all(servers.slice(i, i + batchSize).map(async (server) => {
+			const result = await queryServer(server, transport, throttle, opts, signal);
+			onResult?.(result);
+			return result;
+		}));
+		results.push(...batch);
+	}
+
+	return results;
+}
+
+/**
+ * Queries a single server, retrying and taking latency samples according to
+ * the given options.
+ */
+async function queryServer(
+	server: Server,
+	transport: QueryTransport,
+	throttle: Throttle,
+	opts?: QueryOpts,
+	signal?: AbortSignal,
+): Promise<ServerResult> {
+	const samples = Math.max(1, opts?.samples ?? 1);
+	const retry = makeRetryPolicy(opts?.retry);
+
+	let data: string | undefined;
+	let error: Error | undefined;
+	let attempts = 0;
+	let retries = 0;
+	const pings: number[] = [];
+
+	// Keep querying until we have a response and all our latency samples,
+	// or until we run out of attempts.
+	const needsQuery = (): boolean => {
+		if (signal?.aborted) return false;
+		if (data === undefined) return attempts < retry.attempts;
+		return pings.length < samples && attempts < samples + retry.attempts - 1;
+	};
+
+	while (needsQuery()) {
+		if (attempts > 0 && data === undefined) {
+			await sleep(retryDelay(retry, ++retries), signal);
+		}
+
+		// Slots are per-request, since the same server can be listed twice.
+		const slot = `${addressKey(server)}#${Math.random()}`;
+		await throttle.acquire(slot, signal);
+		if (signal?.aborted) {
+			throttle.release(slot);
+			break;
+		}
+		attempts++;
+
+		try {
+			const response = await transport.request(server, INFO_QUERY, {
+				timeout: opts?.timeout,
+				endDelay: opts?.endDelay,
+				signal,
+			});
+			data ??= reassemblePackets(response.packets).data.toString();
+			pings.push(response.ping);
+			error = undefined;
+		} catch (err) {
+			if (err instanceof QueryTimeoutError) {
+				opts?.metrics?.recordTimeout();
+			} else if (!(err instanceof QueryAbortError)) {
+				error = err as Error;
+			}
+		} finally {
+			throttle.release(slot);
+		}
+	}
+
+	if (data !== undefined) {
+		return {
+			...server,
+			status: QueryStatus.Responded,
+			attempts,
+			ping: pings[0],
+			...(samples > 1 ? { latency: summarizeLatency(pings) } : {}),
+			data,
+		};
+	} else if (error) {
+		return makeFailure(server, QueryStatus.Error, error.message, attempts);
+	} else {
+		return makeFailure(server, QueryStatus.TimedOut, 'No response', attempts);
+	}
+}
+
+/** Calculates statistics for a list of round-trip times. */
+function summarizeLatency(samples: number[]): Latency {
+	const sum = samples.reduce((total, sample) => total + sample, 0);
+	const diffs = samples
+		.slice(1)
+		.reduce((total, sample, i) => total + Math.abs(sample - samples[i]), 0);
+
+	return {
+		samples,
+		min: Math.min(...samples),
+		max: Math.max(...samples),
+		avg: roundTenths(sum / samples.length),
+		jitter: roundTenths(samples.length > 1 ? diffs / (samples.length - 1) : 0),
+	};
+}
+
+/** Rounds a number to one decimal place. */
+function roundTenths(value: number): number {
+	return Math.round(value * 10) / 10;
+}
+
+/** Builds a {@link ServerFailure} for the given server. */
+function makeFailure(
+	server: Server,
+	status: ServerFailure['status'],
+	error: string,
+	attempts = 1,
+	data: string | null = null,
+): ServerFailure {
+	return {
+		address: server.address,
+		port: server.port,
+		game: server.game,
+		status,
+		attempts,
+		data,
+		error,
+	};
 }
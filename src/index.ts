@@ -1 +1,208 @@
-console.log('hello');
\ No newline at end of file
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+export {
+	ApiServer,
+	ApiServerOpts,
+	CachedServer,
+	DEFAULT_API_PORT,
+} from './api';
+export {
+	HistoryEntry,
+	ServerDiff,
+	SettingChange,
+	Snapshot,
+	SnapshotDiff,
+	diffResults,
+	diffSnapshots,
+	listSnapshots,
+	loadSnapshot,
+	saveSnapshot,
+	serverHistory,
+} from './archive';
+export {
+	ServerBrowser,
+	ServerBrowserOpts,
+} from './browser';
+export {
+	HaloQuery,
+	HaloQueryOpts,
+	Target,
+	TargetAddress,
+} from './client';
+export {
+	FilterSyntaxError,
+	ServerPredicate,
+	compileFilter,
+	filterResults,
+} from './filter';
+export {
+	FlagLabels,
+	GAME_TYPE_NAMES,
+	GameFlagLabels,
+	PlayerFlagLabels,
+	VehicleFlagLabels,
+	WEAPON_SET_NAMES,
+	labelGameFlags,
+	labelPlayerFlags,
+	labelVehicleFlags,
+} from './flags';
+export {
+	CsvRows,
+	resultsToCsv,
+	serversToCsv,
+} from './format';
+export {
+	DEFAULT_MASTER_HOST,
+	DEFAULT_MASTER_PORT,
+	GameKeys,
+	MasterServer,
+	MasterServerFetchOpts,
+	getMasterServerList,
+} from './gamespy';
+export {
+	DEFAULT_SERVER_PORT,
+	Latency,
+	ParsedServerResponse,
+	ParsedServerResult,
+	QueryOpts,
+	QueryStatus,
+	Server,
+	ServerArg,
+	ServerFailure,
+	ServerResponse,
+	ServerResult,
+	StreamQueryOpts,
+	isResponse,
+	parseServerResult,
+	queryServerInfo,
+	queryServerInfoStream,
+	resolveServers,
+} from './handler';
+export {
+	DEFAULT_RETRY_POLICY,
+	RetryPolicy,
+} from './retry';
+export {
+	GameStats,
+	PopulationStats,
+	STOCK_MAPS,
+	StatsBucket,
+	StatsReport,
+	computeStats,
+	computeStatsReport,
+	isStockMap,
+} from './stats';
+export {
+	Column,
+	ColumnName,
+	DEFAULT_MAX_HOSTNAME_LENGTH,
+	DEFAULT_TABLE_COLUMNS,
+	TABLE_COLUMNS,
+	TableOpts,
+	isColumnName,
+	renderRecords,
+	renderTable,
+	sortResults,
+} from './table';
+export { ThrottleOpts } from './throttle';
+export {
+	DatagramRecord,
+	MasterExchange,
+	TRAFFIC_CAPTURE_VERSION,
+	TrafficCapture,
+	TrafficOpts,
+	TrafficRecorder,
+	TrafficReplay,
+	loadTrafficCapture,
+	saveTrafficCapture,
+} from './traffic';
+export {
+	QueryAbortError,
+	QueryTimeoutError,
+	QueryTransport,
+	TransportRequestOpts,
+	TransportResponse,
+} from './transport';
+export {
+	LIVE_UPDATES_PATH,
+	LiveMessage,
+	LiveRequest,
+	LiveUpdateServer,
+	LiveUpdateSource,
+	WebSocketConnection,
+	acceptWebSocket,
+	mergePatch,
+} from './websocket';
+export {
+	MasterFailureReason,
+	PROMETHEUS_CONTENT_TYPE,
+	QueryMetrics,
+	renderMetrics,
+} from './metrics';
+export {
+	MockGameServer,
+	MockGameServerOpts,
+	MockMasterServer,
+	MockMasterServerOpts,
+} from './mock';
+export {
+	NormalizedServerInfo,
+	Player,
+	Team,
+	normalizeServerInfo,
+	parseNormalizedServerInfo,
+} from './model';
+export {
+	DEFAULT_POLL_INTERVAL_MS,
+	MonitorEvent,
+	MonitorEventType,
+	MonitorEvents,
+	PlayerEvent,
+	ScoreChangedEvent,
+	ServerMonitor,
+	ServerMonitorOpts,
+	ServerOfflineEvent,
+	ServerOnlineEvent,
+	ValueChangedEvent,
+	diffServerInfo,
+} from './monitor';
+export { DatagramClient, ServerAddress } from './network';
+export {
+	FindPlayerOpts,
+	PLAYER_MATCH_MODES,
+	PlayerEntry,
+	PlayerMatch,
+	PlayerMatchMode,
+	findPlayers,
+	listPlayers,
+	normalizePlayerName,
+} from './players';
+export {
+	FINAL_MARKER,
+	Fragment,
+	ReassembledResponse,
+	isCompleteResponse,
+	parseFragment,
+	reassemblePackets,
+} from './reassembly';
+export {
+	GameFlags,
+	InfoValue,
+	ParseOpts,
+	PlayerFlags,
+	ServerInfo,
+	ServerInfoParseError,
+	ServerInfoParseErrorReason,
+	VehicleFlags,
+	encodeGameFlags,
+	encodePlayerFlags,
+	encodeServerInfo,
+	encodeVehicleFlags,
+	parseServerInfo,
+} from './response';
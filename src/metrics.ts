@@ -0,0 +1,171 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { ParsedServerResult, isResponse } from './handler';
+
+/** The content type of the Prometheus text exposition format. */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Why a master server fetch failed. */
+export type MasterFailureReason = 'connect' | 'request' | 'decrypt' | 'decode';
+
+/** The most recent successful fetch of a game's master server list. */
+interface MasterFetch {
+	/** How long the fetch took, including retries, in seconds. */
+	duration: number;
+	/** How many servers the master server returned. */
+	servers: number;
+}
+
+type Labels = Record<string, unknown>;
+
+/**
+ * Collects health metrics about the queries this library makes.
+ *
+ * Pass one in as the `metrics` option (of {@link HaloQueryOpts} or the
+ * lower-level query functions) to have it updated as queries happen, then
+ * render it with {@link renderMetrics}.
+ */
+export class QueryMetrics {
+	private masterFetches = new Map<string, MasterFetch>();
+	private masterFailures = new Map<string, number>();
+	private timeouts = 0;
+
+	/** Records a successful master server fetch. */
+	recordMasterFetch(game: string, durationMs: number, servers: number): void {
+		this.masterFetches.set(game, { duration: durationMs / 1000, servers });
+	}
+
+	/** Records a failed master server request. */
+	recordMasterFailure(game: string, reason: MasterFailureReason): void {
+		const key = JSON.stringify([game, reason]);
+		this.masterFailures.set(key, (this.masterFailures.get(key) ?? 0) + 1);
+	}
+
+	/** Records a game server query that got no response in time. */
+	recordTimeout(): void {
+		this.timeouts++;
+	}
+
+	/** Renders these metrics in the Prometheus text format. */
+	render(): string {
+		const fetches = Array.from(this.masterFetches);
+		const failures = Array.from(this.masterFailures).map(([key, count]) => {
+			const [game, reason] = JSON.parse(key) as [string, string];
+			return { labels: { game, reason }, value: count };
+		});
+
+		return [
+			metric(
+				'halo_query_master_fetch_duration_seconds', 'gauge',
+				'How long the most recent master server fetch took, including retries.',
+				fetches.map(([game, fetch]) => ({ labels: { game }, value: fetch.duration })),
+			),
+			metric(
+				'halo_query_master_servers', 'gauge',
+				'How many servers the most recent master server fetch returned.',
+				fetches.map(([game, fetch]) => ({ labels: { game }, value: fetch.servers })),
+			),
+			metric(
+				'halo_query_master_failures_total', 'counter',
+				'Master server requests that failed, by the step that failed.',
+				failures,
+			),
+			metric(
+				'halo_query_udp_timeouts_total', 'counter',
+				'Game server queries that got no response in time.',
+				[{ labels: {}, value: this.timeouts }],
+			),
+		].join('');
+	}
+}
+
+/**
+ * Renders query results as Prometheus metrics, optionally followed by the
+ * library's own health metrics.
+ *
+ * Every server gets a `halo_server_up` gauge, and servers that responded also
+ * get player count, max players and ping gauges. These are only labelled by
+ * address and port, so a map change doesn't start a new series. Hostname,
+ * map, game type and game go on a separate `halo_server_info` gauge, which
+ * is always 1.
+ */
+export function renderMetrics(results: ParsedServerResult[], metrics?: QueryMetrics): string {
+	const responses = results.filter(isResponse);
+	const serverLabels = (result: ParsedServerResult): Labels => ({
+		address: result.address,
+		port: result.port,
+	});
+
+	return [
+		metric(
+			'halo_server_up', 'gauge',
+			'Whether the server responded to the most recent query.',
+			results.map(result => ({ labels: serverLabels(result), value: isResponse(result) ? 1 : 0 })),
+		),
+		metric(
+			'halo_server_info', 'gauge',
+			'What the server is running, as of its most recent response.',
+			responses.map(result => ({
+				labels: {
+					...serverLabels(result),
+					game: result.game,
+					hostname: result.data.hostname,
+					map: result.data.mapname,
+					gametype: result.data.gametype,
+				},
+				value: 1,
+			})),
+		),
+		metric(
+			'halo_server_players', 'gauge',
+			'How many players are on the server.',
+			responses.map(result => ({ labels: serverLabels(result), value: result.data.numplayers })),
+		),
+		metric(
+			'halo_server_max_players', 'gauge',
+			'How many players the server allows.',
+			responses.map(result => ({ labels: serverLabels(result), value: result.data.maxplayers })),
+		),
+		metric(
+			'halo_server_ping_seconds', 'gauge',
+			'Round-trip time of the most recent query.',
+			responses.map(result => ({ labels: serverLabels(result), value: result.ping / 1000 })),
+		),
+		metrics?.render() ?? '',
+	].join('');
+}
+
+/** Renders a metric family. Samples without a numeric value are skipped. */
+function metric(
+	name: string,
+	type: 'gauge' | 'counter',
+	help: string,
+	samples: { labels: Labels, value: unknown }[],
+): string {
+	const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+	samples
+		.filter(sample => typeof sample.value === 'number')
+		.forEach(sample => lines.push(`${name}${formatLabels(sample.labels)} ${sample.value}`));
+	return lines.join('\n') + '\n';
+}
+
+function formatLabels(labels: Labels): string {
+	const pairs = Object.entries(labels)
+		.filter(([, value]) => value !== null && value !== undefined)
+		.map(([key, value]) => `${key}="${escapeLabel(String(value))}"`);
+	return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/** Escapes a label value the way the text format requires. */
+function escapeLabel(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, '\\n');
+}
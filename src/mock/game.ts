@@ -0,0 +1,142 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import UDP from 'dgram';
+
+import { ServerAddress } from '../network';
+import { ServerInfo, encodeServerInfoPairs } from '../response';
+
+const DEFAULT_HOST = '127.0.0.1';
+
+/** Game servers recognize a single backslash as an info query. */
+const INFO_QUERY = '\\';
+
+export interface MockGameServerOpts {
+	/** The info this server reports. */
+	info: ServerInfo;
+	/**
+	 * Split each reply across this many packets. Packets are only split
+	 * between key/value pairs, like a real server does.
+	 */
+	packets?: number;
+	/** Wait this many milliseconds before replying. */
+	delay?: number;
+	/** Wait this many milliseconds between each packet of a split reply. */
+	packetDelay?: number;
+	/** Send the packets of a split reply last first. */
+	reverse?: boolean;
+	/** Send every packet twice. */
+	duplicate?: boolean;
+	/** Probability (0 to 1) that any given query is ignored. */
+	drop?: number;
+	/** Ignore this many queries before replying to any. */
+	dropFirst?: number;
+}
+
+/**
+ * A local stand-in for a Halo dedicated server.
+ *
+ * Answers info queries (a single backslash) with the scripted
+ * {@link ServerInfo} in the same backslash-delimited format a real server
+ * uses, including the `\queryid\` and `\final\` markers.
+ *
+ * The options can be changed between queries to simulate different behavior.
+ */
+export class MockGameServer {
+	opts: MockGameServerOpts;
+	/** Every info query this server has received, in order. */
+	readonly queries: ServerAddress[] = [];
+
+	private socket: UDP.Socket;
+	private timers = new Set<NodeJS.Timeout>();
+	private queryId = 0;
+
+	constructor(opts: MockGameServerOpts) {
+		this.opts = { ...opts };
+		this.socket = UDP.createSocket('udp4');
+		this.socket.on('message', (msg, info) => this.onMessage(msg, info));
+	}
+
+	/** The address this server is listening on. */
+	get address(): ServerAddress {
+		const info = this.socket.address();
+		return { address: info.address, port: info.port };
+	}
+
+	/**
+	 * Starts listening for queries.
+	 * By default, this listens on a random free port on localhost.
+	 */
+	async listen(port = 0, host = DEFAULT_HOST): Promise<ServerAddress> {
+		return new Promise((resolve, reject) => {
+			this.socket.once('error', reject);
+			this.socket.bind(port, host, () => {
+				this.socket.removeListener('error', reject);
+				resolve(this.address);
+			});
+		});
+	}
+
+	/** Stops listening and cancels any replies that haven't been sent. */
+	async close(): Promise<void> {
+		this.timers.forEach(timer => clearTimeout(timer));
+		this.timers.clear();
+
+		return new Promise(resolve => this.socket.close(resolve));
+	}
+
+	/**
+	 * Builds the packets for a reply to a single query.
+	 *
+	 * Every packet ends with `\queryid\<query>.<packet>`, and the last packet
+	 * has `\final\` right before that.
+	 */
+	packetize(queryId: number): string[] {
+		const pairs = encodeServerInfoPairs(this.opts.info);
+		const numPackets = Math.max(1, Math.min(this.opts.packets ?? 1, pairs.length));
+		const perPacket = Math.ceil(pairs.length / numPackets);
+
+		return Array(numPackets).fill(null).map((_, i) => {
+			const isLast = i === numPackets - 1;
+			const body = pairs
+				.slice(i * perPacket, (i + 1) * perPacket)
+				.map(([key, value]) => `\\${key}\\${value}`)
+				.join('');
+
+			return `${body}${isLast ? '\\final\\' : ''}\\queryid\\${queryId}.${i + 1}`;
+		});
+	}
+
+	private onMessage(msg: Buffer, info: UDP.RemoteInfo): void {
+		if (msg.toString() !== INFO_QUERY) {
+			return;
+		}
+
+		const sender = { address: info.address, port: info.port };
+		this.queries.push(sender);
+
+		if (this.queries.length <= (this.opts.dropFirst ?? 0)) return;
+		if (Math.random() < (this.opts.drop ?? 0)) return;
+
+		let packets = this.packetize(++this.queryId);
+		if (this.opts.reverse) {
+			packets.reverse();
+		}
+		if (this.opts.duplicate) {
+			packets = packets.flatMap(packet => [packet, packet]);
+		}
+		packets.forEach((packet, i) => {
+			const wait = (this.opts.delay ?? 0) + i * (this.opts.packetDelay ?? 0);
+			const timer = setTimeout(() => {
+				this.timers.delete(timer);
+				this.socket.send(packet, sender.port, sender.address);
+			}, wait);
+			this.timers.add(timer);
+		});
+	}
+}
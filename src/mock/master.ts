@@ -0,0 +1,153 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import * as TCP from 'net';
+
+import {
+	ERROR_PORT,
+	GameKeys,
+	MasterServer,
+	MasterServerRequest,
+	decodeMasterServerRequest,
+	encodeMasterServerResponse,
+} from '../gamespy';
+import { encryptx } from '../gamespy-crypto';
+import { ServerAddress } from '../network';
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_COMMON_PORT = 2302;
+
+export interface MockMasterServerOpts {
+	/**
+	 * The game servers to list. Either a single list returned for every game,
+	 * or a separate list per game. Games without a list get an empty one.
+	 */
+	servers?: ServerAddress[] | Partial<Record<MasterServer, ServerAddress[]>>;
+	/** The "most used" port sent in the response header. */
+	commonPort?: number;
+	/** Respond with the master server's error signal instead of a list. */
+	error?: boolean;
+	/** Only send this many bytes of the encrypted response. */
+	truncate?: number;
+	/** Wait this many milliseconds before responding. */
+	delay?: number;
+}
+
+/**
+ * A local stand-in for the GameSpy master server.
+ *
+ * Understands the server list query built by
+ * {@link encodeMasterServerRequest}, and responds with an enctypex-encrypted
+ * server list that {@link getMasterServerList} can decrypt and decode.
+ * Point {@link MasterServerFetchOpts} `host` and `port` at {@link address}.
+ *
+ * The options can be changed between requests to simulate different errors.
+ */
+export class MockMasterServer {
+	opts: MockMasterServerOpts;
+	/** Every well-formed request this server has received, in order. */
+	readonly requests: MasterServerRequest[] = [];
+
+	private server: TCP.Server;
+	private sockets = new Set<TCP.Socket>();
+	private timers = new Set<NodeJS.Timeout>();
+
+	constructor(opts?: MockMasterServerOpts) {
+		this.opts = { ...opts };
+		this.server = TCP.createServer(socket => this.onConnection(socket));
+	}
+
+	/** The address this server is listening on. */
+	get address(): ServerAddress {
+		const info = this.server.address();
+		if (!info || typeof info === 'string') {
+			throw new Error('Mock master server is not listening');
+		}
+		return { address: info.address, port: info.port };
+	}
+
+	/**
+	 * Starts listening for connections.
+	 * By default, this listens on a random free port on localhost.
+	 */
+	async listen(port = 0, host = DEFAULT_HOST): Promise<ServerAddress> {
+		return new Promise((resolve, reject) => {
+			this.server.once('error', reject);
+			this.server.listen(port, host, () => {
+				this.server.removeListener('error', reject);
+				resolve(this.address);
+			});
+		});
+	}
+
+	/** Stops listening and drops any open connections. */
+	async close(): Promise<void> {
+		this.timers.forEach(timer => clearTimeout(timer));
+		this.timers.clear();
+		this.sockets.forEach(socket => socket.destroy());
+		this.sockets.clear();
+
+		return new Promise((resolve, reject) => {
+			this.server.close(err => err ? reject(err) : resolve());
+		});
+	}
+
+	/** Buffers data from a client until it holds a complete request. */
+	private onConnection(socket: TCP.Socket): void {
+		this.sockets.add(socket);
+		socket.once('close', () => this.sockets.delete(socket));
+		socket.on('error', () => socket.destroy());
+
+		let buffer = Buffer.alloc(0);
+		const onData = (data: Buffer): void => {
+			buffer = Buffer.concat([buffer, data]);
+
+			// The second byte of the request is its total length.
+			if (buffer.length < 2 || buffer.length < buffer[1]) {
+				return;
+			}
+			socket.removeListener('data', onData);
+
+			const request = decodeMasterServerRequest(buffer);
+			if (!request || !Object.keys(GameKeys).includes(request.game)) {
+				socket.destroy();
+				return;
+			}
+			this.requests.push(request);
+
+			const timer = setTimeout(() => {
+				this.timers.delete(timer);
+				this.respond(socket, request);
+			}, this.opts.delay ?? 0);
+			this.timers.add(timer);
+		};
+		socket.on('data', onData);
+	}
+
+	/** Writes the encrypted server list to the client, then hangs up. */
+	private respond(socket: TCP.Socket, request: MasterServerRequest): void {
+		const game = request.game as MasterServer;
+		const servers = Array.isArray(this.opts.servers)
+			? this.opts.servers
+			: this.opts.servers?.[game] ?? [];
+
+		const decrypted = encodeMasterServerResponse({
+			requestIp: socket.remoteAddress?.replace(/^::ffff:/, '') ?? DEFAULT_HOST,
+			commonPort: this.opts.error
+				? ERROR_PORT
+				: this.opts.commonPort ?? DEFAULT_COMMON_PORT,
+			servers: this.opts.error ? [] : servers,
+		});
+		const encrypted = encryptx(GameKeys[game], request.validationKey, decrypted);
+
+		socket.end(this.opts.truncate === undefined
+			? encrypted
+			: encrypted.subarray(0, this.opts.truncate)
+		);
+	}
+}
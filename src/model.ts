@@ -0,0 +1,184 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { GameFlagLabels, PlayerFlagLabels, VehicleFlagLabels } from './flags';
+import {
+	GameFlags,
+	InfoValue,
+	PlayerFlags,
+	ServerInfo,
+	ParseOpts,
+	VehicleFlags,
+	parseServerInfo,
+} from './response';
+
+/** A team on a server. */
+export interface Team {
+	/** The team's position in the server's team list (0 is red, 1 is blue). */
+	index: number;
+	name: string | null;
+	score: number | null;
+	/** Any other values the server reported for this team. */
+	extra: Record<string, InfoValue>;
+}
+
+/** A player on a server. */
+export interface Player {
+	/** The player's slot in the server's player list. */
+	index: number;
+	name: string;
+	score: number | null;
+	ping: number | null;
+	/** The index of the player's team, as the server reported it. */
+	teamIndex: number | null;
+	/** The team entry the player is on, if the server listed it. */
+	team: Team | null;
+	/** Any other values the server reported for this player. */
+	extra: Record<string, InfoValue>;
+}
+
+/**
+ * A {@link ServerInfo} with every well-known field given a proper name and
+ * type. Fields the server didn't report are `null` (or `false`, for flags).
+ */
+export interface NormalizedServerInfo {
+	hostname: string | null;
+	/** The `gamever` field, e.g. "01.00.10.0621". */
+	version: string | null;
+	map: string | null;
+	gametype: string | null;
+	gameVariant: string | null;
+	/** The `gamemode` field, e.g. "openplaying". */
+	gameMode: string | null;
+	numPlayers: number;
+	maxPlayers: number | null;
+	fragLimit: number | null;
+	hostPort: number | null;
+	password: boolean;
+	teamPlay: boolean;
+	dedicated: boolean;
+	/** Empty player slots are left out. */
+	players: Player[];
+	/** Empty team slots are left out. */
+	teams: Team[];
+	playerFlags: PlayerFlags | null;
+	vehicleFlags: VehicleFlags | null;
+	gameFlags: GameFlags | null;
+	/** {@link playerFlags}, labelled with what each value means in game. */
+	playerFlagLabels: PlayerFlagLabels | null;
+	vehicleFlagLabels: VehicleFlagLabels | null;
+	gameFlagLabels: GameFlagLabels | null;
+	/** Every field the server reported that isn't covered above. */
+	extra: Record<string, unknown>;
+}
+
+/**
+ * Fields covered by {@link NormalizedServerInfo}, or that only matter to the
+ * query protocol, so don't belong in `extra`.
+ */
+const KNOWN_KEYS = [
+	'hostname', 'gamever', 'mapname', 'gametype', 'gamevariant', 'gamemode',
+	'numplayers', 'maxplayers', 'fraglimit', 'hostport',
+	'password', 'teamplay', 'dedicated',
+	'players', 'teams',
+	'player_flags', 'player_flags_decoded', 'player_flags_labels',
+	'vehicle_flags', 'vehicle_flags_decoded', 'vehicle_flags_labels',
+	'game_flags', 'game_flags_decoded', 'game_flags_labels',
+	'queryid', 'final',
+];
+const PLAYER_KEYS = ['playername', 'score', 'ping', 'team'];
+const TEAM_KEYS = ['team', 'score'];
+
+/** Values servers use to mean "yes" in flag-like fields. */
+const TRUE_REGEX = /^(1|true|yes|on)$/i;
+
+/**
+ * Converts the raw record from {@link parseServerInfo} into a
+ * {@link NormalizedServerInfo}, so consumers don't need to know the server's
+ * key names or guess at their types. Each player is linked to their team.
+ */
+export function normalizeServerInfo(info: ServerInfo): NormalizedServerInfo {
+	const teams: Team[] = [];
+	info.teams?.forEach((team, index) => {
+		if (!team) return;
+		teams.push({
+			index,
+			name: toText(team.team),
+			score: toNumber(team.score),
+			extra: pickExtra(team, TEAM_KEYS),
+		});
+	});
+
+	const players: Player[] = [];
+	info.players?.forEach((player, index) => {
+		if (!player) return;
+		const teamIndex = toNumber(player.team);
+		players.push({
+			index,
+			name: toText(player.playername) ?? '',
+			score: toNumber(player.score),
+			ping: toNumber(player.ping),
+			teamIndex,
+			team: teams.find(team => team.index === teamIndex) ?? null,
+			extra: pickExtra(player, PLAYER_KEYS),
+		});
+	});
+
+	return {
+		hostname: toText(info.hostname),
+		version: toText(info.gamever),
+		map: toText(info.mapname),
+		gametype: toText(info.gametype),
+		gameVariant: toText(info.gamevariant),
+		gameMode: toText(info.gamemode),
+		numPlayers: toNumber(info.numplayers) ?? players.length,
+		maxPlayers: toNumber(info.maxplayers),
+		fragLimit: toNumber(info.fraglimit),
+		hostPort: toNumber(info.hostport),
+		password: toBoolean(info.password),
+		teamPlay: toBoolean(info.teamplay),
+		dedicated: toBoolean(info.dedicated),
+		players,
+		teams,
+		playerFlags: info.player_flags_decoded ?? null,
+		vehicleFlags: info.vehicle_flags_decoded ?? null,
+		gameFlags: info.game_flags_decoded ?? null,
+		playerFlagLabels: info.player_flags_labels ?? null,
+		vehicleFlagLabels: info.vehicle_flags_labels ?? null,
+		gameFlagLabels: info.game_flags_labels ?? null,
+		extra: pickExtra(info, KNOWN_KEYS),
+	};
+}
+
+/** Parses a server's response straight into a {@link NormalizedServerInfo}. */
+export function parseNormalizedServerInfo(data: string, opts?: ParseOpts): NormalizedServerInfo {
+	return normalizeServerInfo(parseServerInfo(data, opts));
+}
+
+function toText(value: unknown): string | null {
+	return value === null || value === undefined ? null : String(value);
+}
+
+function toNumber(value: unknown): number | null {
+	if (typeof value === 'number') return value;
+	if (typeof value !== 'string') return null;
+
+	const num = Number.parseFloat(value);
+	return Number.isNaN(num) ? null : num;
+}
+
+function toBoolean(value: unknown): boolean {
+	if (typeof value === 'number') return value !== 0;
+	if (typeof value === 'string') return TRUE_REGEX.test(value.trim());
+	return false;
+}
+
+/** Copies every field not in the given list. */
+function pickExtra<T>(record: Record<string, T>, known: string[]): Record<string, T> {
+	return Object.fromEntries(Object.entries(record).filter(([key]) => !known.includes(key)));
+}
@@ -0,0 +1,330 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { EventEmitter } from 'events';
+
+import { HaloQuery, HaloQueryOpts, Target } from './client';
+import {
+	ParsedServerResponse,
+	ParsedServerResult,
+	Server,
+	ServerFailure,
+	isResponse,
+} from './handler';
+import { InfoValue, ServerInfo } from './response';
+import { QueryTransport, addressKey } from './transport';
+
+/** How often a {@link ServerMonitor} polls by default. */
+export const DEFAULT_POLL_INTERVAL_MS = 10000;
+
+interface BaseEvent<T extends string> {
+	type: T;
+	server: Server;
+	time: Date;
+}
+
+/** A player joined or left a server. Players are identified by name. */
+export type PlayerEvent<T extends 'player_joined' | 'player_left'> = BaseEvent<T> & {
+	player: string;
+	team: InfoValue;
+}
+
+/** A server setting changed from one value to another. */
+export type ValueChangedEvent<T extends string> = BaseEvent<T> & {
+	from: InfoValue;
+	to: InfoValue;
+}
+
+/**
+ * A team's or a player's score changed. Exactly one of `team` (the team
+ * index) or `player` (the player name) is set.
+ */
+export type ScoreChangedEvent = ValueChangedEvent<'score_changed'> & {
+	team?: number;
+	player?: string;
+}
+
+export type ServerOnlineEvent = BaseEvent<'server_online'> & {
+	result: ParsedServerResponse;
+}
+
+export type ServerOfflineEvent = BaseEvent<'server_offline'> & {
+	result: ServerFailure;
+}
+
+/** Every event a {@link ServerMonitor} emits, keyed by event name. */
+export interface MonitorEvents {
+	player_joined: PlayerEvent<'player_joined'>;
+	player_left: PlayerEvent<'player_left'>;
+	map_changed: ValueChangedEvent<'map_changed'>;
+	game_type_changed: ValueChangedEvent<'game_type_changed'>;
+	hostname_changed: ValueChangedEvent<'hostname_changed'>;
+	score_changed: ScoreChangedEvent;
+	server_online: ServerOnlineEvent;
+	server_offline: ServerOfflineEvent;
+}
+
+export type MonitorEventType = keyof MonitorEvents;
+export type MonitorEvent = MonitorEvents[MonitorEventType];
+
+export interface ServerMonitorOpts extends HaloQueryOpts {
+	/**
+	 * Milliseconds between the end of one poll and the start of the next.
+	 * Defaults to {@link DEFAULT_POLL_INTERVAL_MS}.
+	 */
+	interval?: number;
+}
+
+/** What we last saw from a server. */
+interface Snapshot {
+	online: boolean;
+	info: ServerInfo | null;
+}
+
+export interface ServerMonitor {
+	/** Emitted for every event, regardless of type. */
+	on(event: 'change', listener: (event: MonitorEvent) => void): this;
+	/** Emitted with every result once each poll finishes. */
+	on(event: 'poll', listener: (results: ParsedServerResult[]) => void): this;
+	/**
+	 * Emitted when a poll fails outright (e.g. the master server is down).
+	 * Without a listener, failed polls are skipped and polling carries on.
+	 */
+	on(event: 'error', listener: (err: Error) => void): this;
+	on<E extends MonitorEventType>(event: E, listener: (event: MonitorEvents[E]) => void): this;
+
+	once(event: 'change', listener: (event: MonitorEvent) => void): this;
+	once(event: 'poll', listener: (results: ParsedServerResult[]) => void): this;
+	once(event: 'error', listener: (err: Error) => void): this;
+	once<E extends MonitorEventType>(event: E, listener: (event: MonitorEvents[E]) => void): this;
+}
+
+/**
+ * Polls a set of game servers (and/or master server lists) at an interval,
+ * and emits events describing what changed between polls.
+ *
+ * The first time a server is seen, its state is recorded without emitting
+ * anything. The same goes for a server coming back online, since diffing
+ * against how it looked before it went away would produce a flood of
+ * misleading events. Master server lists are re-fetched on every poll, so
+ * new servers are picked up as they appear.
+ *
+ * ```ts
+ * const monitor = new ServerMonitor(['halom'], { interval: 30000 });
+ * monitor.on('player_joined', event => console.log(event.player, 'joined'));
+ * monitor.start();
+ * ```
+ */
+export class ServerMonitor extends EventEmitter {
+	readonly interval: number;
+	private client: HaloQuery;
+	private targets: Target[];
+	private transport: QueryTransport | null = null;
+	private snapshots = new Map<string, Snapshot>();
+	private timer: NodeJS.Timeout | null = null;
+	private running = false;
+	private stopped = false;
+
+	constructor(targets: Target[], opts?: ServerMonitorOpts) {
+		super();
+		this.targets = [...targets];
+		this.interval = opts?.interval ?? DEFAULT_POLL_INTERVAL_MS;
+
+		// Polling is exactly what a long-lived transport is for.
+		if (!opts?.transport) {
+			this.transport = new QueryTransport(opts);
+		}
+		this.client = new HaloQuery({
+			...opts,
+			transport: opts?.transport ?? this.transport!,
+		});
+	}
+
+	/** Whether the monitor is polling. */
+	get isRunning(): boolean {
+		return this.running;
+	}
+
+	/**
+	 * Starts polling. The first poll happens immediately, and each following
+	 * poll starts {@link interval} milliseconds after the previous one ends.
+	 */
+	start(): this {
+		if (this.running) return this;
+		this.running = true;
+		this.schedule(0);
+		return this;
+	}
+
+	/**
+	 * Stops polling. Closes the query transport, unless one was passed in.
+	 * A stopped monitor can't be restarted.
+	 */
+	stop(): this {
+		this.running = false;
+		this.stopped = true;
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.transport?.close();
+		return this;
+	}
+
+	/**
+	 * Queries every target once, emits an event for each change since the
+	 * last poll, and returns those events.
+	 */
+	async poll(): Promise<MonitorEvent[]> {
+		const results = await this.client.query(this.targets);
+
+		// Stopping closes the transport out from under any in-flight query,
+		// which would otherwise look like every server going offline.
+		if (this.stopped) return [];
+
+		const time = new Date();
+		const events: MonitorEvent[] = [];
+
+		const seen = new Set<string>();
+		results.forEach(result => {
+			const key = addressKey(result);
+			seen.add(key);
+			events.push(...this.update(key, result, time));
+		});
+
+		// Forget servers that dropped off the master list.
+		Array.from(this.snapshots.keys())
+			.filter(key => !seen.has(key))
+			.forEach(key => this.snapshots.delete(key));
+
+		events.forEach(event => {
+			this.emit(event.type, event);
+			this.emit('change', event);
+		});
+		this.emit('poll', results);
+
+		return events;
+	}
+
+	/** Runs a poll after the given delay, then schedules the next one. */
+	private schedule(delay: number): void {
+		this.timer = setTimeout(async () => {
+			try {
+				await this.poll();
+			} catch (err) {
+				// Emitting 'error' with no listener would throw.
+				if (this.listenerCount('error') > 0) {
+					this.emit('error', err);
+				}
+			}
+			if (this.running) {
+				this.schedule(this.interval);
+			}
+		}, delay);
+	}
+
+	/** Records the server's latest result and returns what changed. */
+	private update(key: string, result: ParsedServerResult, time: Date): MonitorEvent[] {
+		const previous = this.snapshots.get(key);
+		const server: Server = {
+			address: result.address,
+			port: result.port,
+			game: result.game,
+		};
+
+		if (isResponse(result)) {
+			this.snapshots.set(key, { online: true, info: result.data });
+			if (!previous) return [];
+			if (!previous.online || !previous.info) {
+				return [{ type: 'server_online', server, time, result }];
+			}
+			return diffServerInfo(server, previous.info, result.data, time);
+		} else {
+			this.snapshots.set(key, { online: false, info: previous?.info ?? null });
+			if (previous?.online) {
+				return [{ type: 'server_offline', server, time, result }];
+			}
+			return [];
+		}
+	}
+}
+
+/**
+ * Compares two info snapshots from the same server and returns events
+ * describing the differences. Players are matched up by name.
+ */
+export function diffServerInfo(
+	server: Server,
+	before: ServerInfo,
+	after: ServerInfo,
+	time = new Date(),
+): MonitorEvent[] {
+	const events: MonitorEvent[] = [];
+	const base = { server, time };
+
+	const changed = (
+		type: 'map_changed' | 'game_type_changed' | 'hostname_changed',
+		key: string,
+	): void => {
+		const from = (before[key] ?? null) as InfoValue;
+		const to = (after[key] ?? null) as InfoValue;
+		if (from !== to) {
+			events.push({ ...base, type, from, to } as MonitorEvent);
+		}
+	};
+
+	changed('hostname_changed', 'hostname');
+	changed('map_changed', 'mapname');
+	changed('game_type_changed', 'gametype');
+
+	const playersBefore = playersByName(before);
+	const playersAfter = playersByName(after);
+
+	playersAfter.forEach((player, name) => {
+		if (!playersBefore.has(name)) {
+			events.push({ ...base, type: 'player_joined', player: name, team: player.team ?? null });
+		}
+	});
+	playersBefore.forEach((player, name) => {
+		if (!playersAfter.has(name)) {
+			events.push({ ...base, type: 'player_left', player: name, team: player.team ?? null });
+		}
+	});
+
+	after.teams?.forEach((team, index) => {
+		const from = before.teams?.[index]?.score ?? null;
+		const to = team?.score ?? null;
+		if (from !== to) {
+			events.push({ ...base, type: 'score_changed', team: index, from, to });
+		}
+	});
+	playersAfter.forEach((player, name) => {
+		const previous = playersBefore.get(name);
+		if (!previous) return;
+
+		const from = previous.score ?? null;
+		const to = player.score ?? null;
+		if (from !== to) {
+			events.push({ ...base, type: 'score_changed', player: name, from, to });
+		}
+	});
+
+	return events;
+}
+
+/** Indexes the server's players by name. Nameless player slots are skipped. */
+function playersByName(info: ServerInfo): Map<string, Record<string, InfoValue>> {
+	const players = new Map<string, Record<string, InfoValue>>();
+	info.players?.forEach(player => {
+		const name = player?.playername;
+		if (name !== null && name !== undefined) {
+			players.set(String(name), player);
+		}
+	});
+	return players;
+}
@@ -9,6 +9,8 @@
 import UDP from 'dgram';
 import * as TCP from 'net';
 
+import { reassemblePackets } from './reassembly';
+
 export interface ServerAddress {
 	address: string;
 	port: number;
@@ -18,8 +20,21 @@ export type UDPResponse = ServerAddress & {
 	data: Buffer;
 }
 
-const DEFAULT_END_DELAY_MS = 500;
-const DEFAULT_TIMEOUT_MS = 1000;
+export const DEFAULT_END_DELAY_MS = 500;
+export const DEFAULT_TIMEOUT_MS = 1000;
+
+/**
+ * The parts of {@link UDPClient} that sending queries needs. Lets traffic be
+ * recorded, or replayed without touching the network.
+ */
+export interface DatagramClient {
+	listen(
+		onMessage: (response: UDPResponse) => void,
+		onError?: (err: Error) => void,
+	): () => void;
+	write(address: string, port: number, message: Uint8Array | string): Promise<number>;
+	close(): void;
+}
 
 /**
  * A promisified wrapper around {@link UDP.Socket}.
@@ -28,7 +43,7 @@ const DEFAULT_TIMEOUT_MS = 1000;
  * There is no guarantee any data received is a response to a previous message,
  * and there is no guarantee any data will be returned at all.
  */
-export class UDPClient {
+export class UDPClient implements DatagramClient {
 	private socket: UDP.Socket;
 
 	constructor() {
@@ -69,6 +84,8 @@ export class UDPClient {
 	 * We can receive messages from many sources, so the data is returned in a
 	 * map grouped by address and port (or `null` if no data was received).
 	 * This function is useful if {@link write} was called several times.
+	 * Each sender's packets are put back together with
+	 * {@link reassemblePackets}.
 	 *
 	 * Resolves `endDelay` milliseconds after the most recent received data.
 	 * This delay strategy is the only way to promisify this operation, because:
@@ -101,9 +118,9 @@ export class UDPClient {
 
 			// When this timer expires, resolve the Promise with the data.
 			const timeout = setTimeout(() => {
-				this.socket.removeListener('data', onData);
+				this.socket.removeListener('message', onData);
 
-				// Reduce each sender's buffer array down to a single buffer
+				// Reassemble each sender's packets into a single buffer
 				resolve(messageGroups.size === 0
 					? null
 					: Array.from(messageGroups.keys()).reduce<UDPResponse[]>((list, key) => {
@@ -112,7 +129,7 @@ export class UDPClient {
 						list.push({
 							address: messages[0].address,
 							port: messages[0].port,
-							data: Buffer.concat(messages.map(msg => msg.data)),
+							data: reassemblePackets(messages.map(msg => msg.data)).data,
 						});
 						return list;
 					}, [])
@@ -121,13 +138,42 @@ export class UDPClient {
 
 			this.socket.on('message', onData);
 			this.socket.once('error', (err) => {
-				this.socket.removeListener('data', onData);
+				this.socket.removeListener('message', onData);
 				clearTimeout(timeout);
 				reject(err);
 			});
 		});
 	}
 
+	/**
+	 * Calls the given handlers for every message (or error) received on the
+	 * socket, until the returned function is called.
+	 *
+	 * Unlike {@link readAll}, this hands over each packet as it arrives, so
+	 * callers can decide for themselves when a response is complete.
+	 */
+	listen(
+		onMessage: (response: UDPResponse) => void,
+		onError?: (err: Error) => void,
+	): () => void {
+		const onData = (msg: Buffer, info: UDP.RemoteInfo): void => {
+			onMessage({
+				address: info.address,
+				port: info.port,
+				data: msg,
+			});
+		};
+		const onSocketError = (err: Error): void => onError?.(err);
+
+		this.socket.on('message', onData);
+		this.socket.on('error', onSocketError);
+
+		return () => {
+			this.socket.removeListener('message', onData);
+			this.socket.removeListener('error', onSocketError);
+		};
+	}
+
 	/** Convenience method that combines {@link read} and {@link write}. */
 	async request(
 		address: string,
@@ -0,0 +1,169 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { ParsedServerResult, isResponse } from './handler';
+import { ServerAddress } from './network';
+import { InfoValue } from './response';
+
+/**
+ * How player names are compared to the search.
+ * - `exact`: The names must match exactly, ignoring color codes.
+ * - `insensitive`: The names must match, ignoring case, color codes and
+ *   clan tags.
+ * - `fuzzy`: Like `insensitive`, but also matches names that contain the
+ *   search, or that are a typo or two away from it.
+ */
+export type PlayerMatchMode = 'exact' | 'insensitive' | 'fuzzy';
+
+export const PLAYER_MATCH_MODES: readonly PlayerMatchMode[] = Object.freeze([
+	'exact', 'insensitive', 'fuzzy',
+]);
+
+/** A player on a server, along with where that server is. */
+export interface PlayerEntry {
+	name: string;
+	score: InfoValue;
+	team: InfoValue;
+	ping: InfoValue;
+	server: ServerAddress & {
+		game: string | null;
+		hostname: string | null;
+	};
+}
+
+/** A player found by {@link findPlayers}. */
+export interface PlayerMatch extends PlayerEntry {
+	/**
+	 * How many edits (after normalizing) it takes to turn the player's name
+	 * into the search. 0 for names that match outright.
+	 */
+	distance: number;
+}
+
+export interface FindPlayerOpts {
+	/** How to compare names. Defaults to `insensitive`. */
+	match?: PlayerMatchMode;
+}
+
+/**
+ * Color codes some server mods allow in names, like `^1Name`. They only
+ * change how the name looks, so we ignore them when comparing.
+ */
+const COLOR_CODE_REGEX = /\^[0-9a-z]/gi;
+/** Anything that isn't printable, which some players pad their names with. */
+const UNPRINTABLE_REGEX = /[\x00-\x1F\x7F]/g;
+/**
+ * Clan tags at the start or end of a name, like `[TAG]Name`, `{TAG}Name`,
+ * `Name<TAG>`, `=TAG=Name` or `TAG|Name`.
+ */
+const CLAN_TAG_REGEXES = [
+	/^\s*(\[[^\]]*\]|\{[^}]*\}|\([^)]*\)|<[^>]*>|=[^=]*=|\|[^|]*\|)\s*/,
+	/\s*(\[[^\]]*\]|\{[^}]*\}|\([^)]*\)|<[^>]*>|=[^=]*=|\|[^|]*\|)\s*$/,
+	/^[^|]+\|(?=.)/,
+];
+
+/**
+ * Lists every player on the servers that responded. Empty player slots are
+ * skipped.
+ */
+export function listPlayers(results: ParsedServerResult[]): PlayerEntry[] {
+	return results.filter(isResponse).flatMap(result => (
+		(result.data.players ?? [])
+			.filter(player => player)
+			.map<PlayerEntry>(player => ({
+				name: String(player.playername ?? ''),
+				score: player.score ?? null,
+				team: player.team ?? null,
+				ping: player.ping ?? null,
+				server: {
+					address: result.address,
+					port: result.port,
+					game: result.game,
+					hostname: result.data.hostname ?? null,
+				},
+			}))
+	));
+}
+
+/**
+ * Searches the players of every server that responded for the given name.
+ * Matches are sorted closest first, then in the order the servers were given.
+ */
+export function findPlayers(
+	results: ParsedServerResult[],
+	name: string,
+	opts?: FindPlayerOpts,
+): PlayerMatch[] {
+	const mode = opts?.match ?? 'insensitive';
+
+	return listPlayers(results)
+		.map(player => ({ ...player, distance: matchDistance(player.name, name, mode) }))
+		.filter((player): player is PlayerMatch => player.distance !== null)
+		.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Strips what doesn't identify a player from their name: color codes,
+ * unprintable characters, clan tags and case. Names that are nothing but a
+ * clan tag are left with the tag.
+ */
+export function normalizePlayerName(name: string): string {
+	let normalized = name
+		.replace(COLOR_CODE_REGEX, '')
+		.replace(UNPRINTABLE_REGEX, '')
+		.trim();
+
+	for (const regex of CLAN_TAG_REGEXES) {
+		const stripped = normalized.replace(regex, '');
+		if (stripped) normalized = stripped;
+	}
+
+	return normalized.trim().toLowerCase();
+}
+
+/** How far a name is from the search, or `null` if it doesn't match. */
+function matchDistance(name: string, search: string, mode: PlayerMatchMode): number | null {
+	if (mode === 'exact') {
+		return name.replace(COLOR_CODE_REGEX, '') === search.replace(COLOR_CODE_REGEX, '')
+			? 0
+			: null;
+	}
+
+	const normalName = normalizePlayerName(name);
+	const normalSearch = normalizePlayerName(search);
+	if (normalName === normalSearch) return 0;
+	if (mode === 'insensitive') return null;
+
+	if (normalName.includes(normalSearch)) {
+		return normalName.length - normalSearch.length;
+	}
+
+	// Allow roughly one typo for every four characters.
+	const maxDistance = Math.floor(normalSearch.length / 4);
+	const distance = editDistance(normalName, normalSearch);
+	return distance <= maxDistance ? distance : null;
+}
+
+/** Levenshtein distance between two strings. */
+function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+		previous = current;
+	}
+
+	return previous[b.length];
+}
@@ -0,0 +1,67 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+
+/**
+ * A queue that can be pushed to from callbacks and consumed with
+ * `for await`. This bridges event-based code (like socket listeners) to
+ * async iterators.
+ *
+ * Items pushed before anybody is iterating are buffered. Iteration finishes
+ * once {@link end} is called and the buffer is drained, or throws once
+ * {@link fail} is called.
+ */
+export class AsyncQueue<T> implements AsyncIterable<T> {
+	private items: T[] = [];
+	private ended = false;
+	private error: Error | null = null;
+	private wake: (() => void) | null = null;
+
+	/** Whether {@link end} or {@link fail} has been called. */
+	get done(): boolean {
+		return this.ended;
+	}
+
+	/** Adds an item to the queue. Items pushed after {@link end} are dropped. */
+	push(item: T): void {
+		if (this.ended) return;
+		this.items.push(item);
+		this.notify();
+	}
+
+	/** Marks the queue as finished. Buffered items are still delivered. */
+	end(): void {
+		this.ended = true;
+		this.notify();
+	}
+
+	/** Marks the queue as failed. Iteration throws the given error. */
+	fail(error: Error): void {
+		this.error = error;
+		this.end();
+	}
+
+	async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+		while (true) {
+			if (this.items.length > 0) {
+				yield this.items.shift()!;
+			} else if (this.error) {
+				throw this.error;
+			} else if (this.ended) {
+				return;
+			} else {
+				await new Promise<void>(resolve => this.wake = resolve);
+			}
+		}
+	}
+
+	private notify(): void {
+		this.wake?.();
+		this.wake = null;
+	}
+}
@@ -0,0 +1,138 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+
+/** Game servers end the last packet of a response with this marker. */
+export const FINAL_MARKER = '\\final\\';
+
+/**
+ * Every packet of a response ends with `\queryid\<query>.<packet>`. The last
+ * packet also has the {@link FINAL_MARKER}, usually right before that, but
+ * some servers put it after.
+ */
+const FRAGMENT_REGEX = /^([^]*?)(\\final\\)?\\queryid\\(\d+)\.(\d+)(\\final\\)?$/;
+
+/** One packet of a multi-packet game server response. */
+export interface Fragment {
+	/** The query this packet answers. Servers count these up per query. */
+	queryId: number;
+	/** The packet's position in the response, starting from 1. */
+	index: number;
+	/** Whether this is the last packet of the response. */
+	final: boolean;
+	/** The packet's key/value pairs, without the markers. */
+	body: Buffer;
+}
+
+/** A game server response, put back together from its packets. */
+export interface ReassembledResponse {
+	/**
+	 * The response as if it had been sent in a single packet, ending with
+	 * `\queryid\`. It only includes `\final\` if the response is complete.
+	 * This is left as bytes, since a character can be split across packets.
+	 */
+	data: Buffer;
+	/** The query the response answers, or `null` if the packets weren't marked. */
+	queryId: number | null;
+	/** Whether every packet up to and including the final one arrived. */
+	complete: boolean;
+	/** How many packets were dropped for being duplicates. */
+	duplicates: number;
+	/** Indexes of packets that never arrived, before the last one that did. */
+	missing: number[];
+}
+
+/**
+ * Reads the `\queryid\` and `\final\` markers from a packet.
+ * Returns `null` for packets without a `\queryid\`.
+ */
+export function parseFragment(packet: Buffer | string): Fragment | null {
+	const data = Buffer.from(packet);
+	// Latin-1 maps each byte to one character, so the body's length in
+	// characters is its length in bytes, even if it has half a character.
+	const match = FRAGMENT_REGEX.exec(data.toString('latin1'));
+	if (!match) return null;
+
+	const [, body, finalBefore, queryId, index, finalAfter] = match;
+	return {
+		queryId: Number.parseInt(queryId),
+		index: Number.parseInt(index),
+		final: !!(finalBefore || finalAfter),
+		body: data.subarray(0, body.length),
+	};
+}
+
+/**
+ * Puts a game server's response back together from the packets it sent.
+ *
+ * UDP doesn't promise anything about order or delivery, so packets are sorted
+ * by their `\queryid\` index, and duplicates are dropped. If the packets
+ * answer more than one query (e.g. a late reply to an earlier attempt), the
+ * latest complete response wins, or failing that, the latest response.
+ * Packets without markers can't be placed, so are left out.
+ *
+ * If none of the packets are marked, they're joined in arrival order, since
+ * that's the best we can do.
+ */
+export function reassemblePackets(packets: (Buffer | string)[]): ReassembledResponse {
+	const groups = new Map<number, Fragment[]>();
+	packets.forEach(packet => {
+		const fragment = parseFragment(packet);
+		if (!fragment) return;
+
+		if (!groups.has(fragment.queryId)) {
+			groups.set(fragment.queryId, []);
+		}
+		groups.get(fragment.queryId)!.push(fragment);
+	});
+
+	if (groups.size === 0) {
+		const data = Buffer.concat(packets.map(packet => Buffer.from(packet)));
+		return {
+			data,
+			queryId: null,
+			complete: data.includes(FINAL_MARKER),
+			duplicates: 0,
+			missing: [],
+		};
+	}
+
+	const responses = Array.from(groups, ([queryId, fragments]) => assemble(queryId, fragments))
+		.sort((a, b) => b.queryId! - a.queryId!);
+	return responses.find(response => response.complete) ?? responses[0];
+}
+
+/** Whether the packets make up a whole response. */
+export function isCompleteResponse(packets: (Buffer | string)[]): boolean {
+	return reassemblePackets(packets).complete;
+}
+
+/** Assembles the packets for a single query. */
+function assemble(queryId: number, fragments: Fragment[]): ReassembledResponse {
+	const byIndex = new Map<number, Fragment>();
+	fragments.forEach(fragment => {
+		if (!byIndex.has(fragment.index)) {
+			byIndex.set(fragment.index, fragment);
+		}
+	});
+
+	const sorted = Array.from(byIndex.values()).sort((a, b) => a.index - b.index);
+	const last = sorted[sorted.length - 1];
+	const missing = Array.from({ length: last.index }, (_, i) => i + 1)
+		.filter(index => !byIndex.has(index));
+	const complete = last.final && missing.length === 0;
+
+	const markers = `${complete ? FINAL_MARKER : ''}\\queryid\\${queryId}.${last.index}`;
+	return {
+		data: Buffer.concat([...sorted.map(fragment => fragment.body), Buffer.from(markers)]),
+		queryId,
+		complete,
+		duplicates: fragments.length - byIndex.size,
+		missing,
+	};
+}
@@ -7,10 +7,18 @@
  * for more information.
  ******************************************************************************/
 import { Bitfield, Struct } from './bitfield';
-
-type InfoValue = string | number | null;
-
-interface ServerInfo {
+import {
+	GameFlagLabels,
+	PlayerFlagLabels,
+	VehicleFlagLabels,
+	labelGameFlags,
+	labelPlayerFlags,
+	labelVehicleFlags,
+} from './flags';
+
+export type InfoValue = string | number | null;
+
+export interface ServerInfo {
 	hostname?: string;
 	players?: {
 		[key: string]: InfoValue;
@@ -18,6 +26,15 @@ interface ServerInfo {
 	teams?: {
 		[key: string]: InfoValue;
 	}[];
+	player_flags?: number;
+	player_flags_decoded?: PlayerFlags;
+	player_flags_labels?: PlayerFlagLabels;
+	vehicle_flags?: number;
+	vehicle_flags_decoded?: VehicleFlags;
+	vehicle_flags_labels?: VehicleFlagLabels;
+	game_flags?: number;
+	game_flags_decoded?: GameFlags;
+	game_flags_labels?: GameFlagLabels;
 	[key: string]: unknown;
 }
 
@@ -27,7 +44,7 @@ interface ServerInfo {
  * https://github.com/Chaosvex/Halo-Status/blob/master/script/FlagDecoder.class.php
  * https://github.com/Chaosvex/Halo-Status/blob/master/script/flags.php
  */
-type PlayerFlags = {
+export type PlayerFlags = {
 	lives: number;
 	health_percent: number;
 	shields_enabled: number;
@@ -46,13 +63,13 @@ type PlayerFlags = {
 	friendly_fire_penalty: number;
 	auto_balance: number;
 };
-type VehicleFlags = {
+export type VehicleFlags = {
 	respawn_time: number;
 	red_team: number;
 	blue_team: number;
 };
 
-type GameFlags =
+export type GameFlags =
 	| BaseGameFlags
 	| CTFFlags
 	| SlayerFlags
@@ -60,24 +77,24 @@ type GameFlags =
 	| KingFlags
 	| RaceFlags;
 
-type BaseGameFlags = {
+export type BaseGameFlags = {
 	game_type: number;
 }
 
-type CTFFlags = BaseGameFlags & {
+export type CTFFlags = BaseGameFlags & {
 	assault: number;
 	flag_must_reset: number;
 	flag_must_be_home: number;
 	single_flag_time: number;
 };
 
-type SlayerFlags = BaseGameFlags & {
+export type SlayerFlags = BaseGameFlags & {
 	death_bonus: number;
 	kill_penalty: number;
 	kill_in_order: number;
 };
 
-type OddballFlags = BaseGameFlags & {
+export type OddballFlags = BaseGameFlags & {
 	random_start: number;
 	ball_speed_percent: number;
 	trait_with_ball: number;
@@ -86,11 +103,11 @@ type OddballFlags = BaseGameFlags & {
 	num_balls: number;
 }
 
-type KingFlags = BaseGameFlags & {
+export type KingFlags = BaseGameFlags & {
 	moving_hill: number;
 }
 
-type RaceFlags = BaseGameFlags & {
+export type RaceFlags = BaseGameFlags & {
 	race_type: number;
 	team_scoring: number;
 }
@@ -108,20 +125,69 @@ const INT_VALUE_REGEX = /^\d+$/;
 const FLOAT_VALUE_REGEX = /^\d+\.\d+$/;
 
 
+/** Why a response failed to parse in strict mode. */
+export type ServerInfoParseErrorReason =
+	/** The response doesn't have a `gamever` field. */
+	| 'missing_gamever'
+	/** The response doesn't start with `\hostname\`, or has a key with no value. */
+	| 'malformed'
+	/** The response doesn't end with the `\final\` marker. */
+	| 'incomplete'
+	/** The same key shows up more than once. */
+	| 'duplicate_key'
+	/** A flags field isn't a number, or has an unrecognized game type. */
+	| 'invalid_flags';
+
+/** Thrown by {@link parseServerInfo} in strict mode for responses that don't parse cleanly. */
+export class ServerInfoParseError extends Error {
+	readonly reason: ServerInfoParseErrorReason;
+
+	constructor(reason: ServerInfoParseErrorReason, message: string) {
+		super(message);
+		this.name = 'ServerInfoParseError';
+		this.reason = reason;
+	}
+}
+
+export interface ParseOpts {
+	/**
+	 * Throw a {@link ServerInfoParseError} for responses that are incomplete
+	 * or malformed, instead of making the best of them. Responses must be
+	 * complete, i.e. end with `\final\` (see `reassemblePackets`).
+	 */
+	strict?: boolean;
+}
+
 /**
  * Parses the string responses from game server queries.
  *
- * Splits the \\key1\\value1\\key2\\value2 strings into an object.
+ * Splits the \\key1\\value1\\key2\\value2 strings into an object. By
+ * default, this makes the best of whatever it's given. See
+ * {@link ParseOpts.strict} for catching bad responses.
  */
-export function parseServerInfo(data: string): ServerInfo {
+export function parseServerInfo(data: string, opts?: ParseOpts): ServerInfo {
+	const fail = (reason: ServerInfoParseErrorReason, message: string): void => {
+		if (opts?.strict) throw new ServerInfoParseError(reason, message);
+	};
+
 	// Annoyingly, "hostname" can have backslashes in it.
 	// Thankfully, "gamever" always follows, so we can just read until we see that.
 	const hostname = HOSTNAME_REGEX.exec(data)?.[1];
 
 	const start = data.indexOf('gamever');
+	if (start === -1) {
+		fail('missing_gamever', 'Response is missing gamever');
+	} else if (hostname === undefined) {
+		fail('malformed', 'Response does not start with hostname');
+	}
 	const parts = data.substring(start).split('\\');
+	if (parts.length % 2 !== 0) {
+		fail('malformed', 'Response ends with a key that has no value');
+	}
+
+	const seen = new Set<string>();
 
-	return parts
+	const info = parts
 		.reduce<string[][]>((groups, item, i) => {
 			if (i % 2 === 0) {
 				groups.push([item]);
@@ -131,6 +197,11 @@ export function parseServerInfo(data: string): ServerInfo {
 			return groups;
 		}, [])
 		.reduce<ServerInfo>((record, [key, value]) => {
+			if (seen.has(key)) {
+				fail('duplicate_key', `Response has more than one "${key}"`);
+			}
+			seen.add(key);
+
 			let parent: 'teams'|'players'|null = null;
 			let match: RegExpExecArray | null;
 
@@ -149,25 +220,98 @@ export function parseServerInfo(data: string): ServerInfo {
 				if (!record[parent]![index]) record[parent]![index] = {};
 				record[parent]![index][subKey] = parseValue(value);
 			} else if (key === 'player_flags') {
-				const [playerFlags, vehicleFlags] = value
+				if (!/^\d+,\d+$/.test(value ?? '')) {
+					fail('invalid_flags', `Invalid player_flags "${value}"`);
+				}
+				const [playerFlags, vehicleFlags] = (value ?? '')
 					.split(',')
 					.map(num => Number.parseInt(num));
 
 				record['player_flags'] = playerFlags;
 				record['player_flags_decoded'] = decodePlayerFlags(playerFlags);
+				record['player_flags_labels'] = labelPlayerFlags(record['player_flags_decoded']);
 
 				record['vehicle_flags'] = vehicleFlags;
 				record['vehicle_flags_decoded'] = decodeVehicleFlags(vehicleFlags);
+				record['vehicle_flags_labels'] = labelVehicleFlags(record['vehicle_flags_decoded']);
 			} else if (key === 'game_flags') {
 				const gameFlags = Number.parseInt(value);
+				if (!INT_VALUE_REGEX.test(value ?? '')) {
+					fail('invalid_flags', `Invalid game_flags "${value}"`);
+				} else if (!GAME_FLAGS[gameFlags & 0x7]) {
+					fail('invalid_flags', `Unrecognized gametype code ${gameFlags & 0x7} in flags ${gameFlags}`);
+				}
 				record['game_flags'] = gameFlags;
 				record['game_flags_decoded'] = decodeGameFlags(gameFlags);
+				record['game_flags_labels'] = labelGameFlags(record['game_flags_decoded']);
 			} else {
 				record[key] = parseValue(value);
 			}
 
 			return record;
 		}, { hostname });
+
+	if (!seen.has('final')) {
+		fail('incomplete', 'Response is missing the final marker');
+	}
+
+	return info;
+}
+
+/**
+ * Encodes a {@link ServerInfo} into the backslash-delimited key/value pairs a
+ * game server sends. This is the inverse of {@link parseServerInfo}.
+ *
+ * `hostname` and `gamever` are always written first, since the parser relies
+ * on that order. Player and team values are flattened back out into indexed
+ * keys (e.g. "score_1" and "score_t1"). The `*_decoded` and `*_labels` flag
+ * objects are ignored in favor of the raw flag values.
+ */
+export function encodeServerInfoPairs(info: ServerInfo): [string, string][] {
+	const pairs: [string, string][] = [];
+	const { hostname, gamever, players, teams, ...rest } = info;
+
+	if (hostname !== undefined) pairs.push(['hostname', encodeValue(hostname)]);
+	if (gamever  !== undefined) pairs.push(['gamever', encodeValue(gamever)]);
+
+	for (const [key, value] of Object.entries(rest)) {
+		if (key === 'player_flags') {
+			// Servers always send both, so vehicle flags default to 0.
+			pairs.push([key, `${encodeValue(value)},${encodeValue(rest.vehicle_flags ?? 0)}`]);
+		} else if (key === 'vehicle_flags' || key.endsWith('_decoded') || key.endsWith('_labels')) {
+			continue;
+		} else {
+			pairs.push([key, encodeValue(value)]);
+		}
+	}
+
+	players?.forEach((player, i) => {
+		Object.entries(player ?? {}).forEach(([key, value]) => {
+			pairs.push([`${key}_${i}`, encodeValue(value)]);
+		});
+	});
+	teams?.forEach((team, i) => {
+		Object.entries(team ?? {}).forEach(([key, value]) => {
+			pairs.push([`${key}_t${i}`, encodeValue(value)]);
+		});
+	});
+
+	return pairs;
+}
+
+/**
+ * Encodes a {@link ServerInfo} into the string a game server sends in response
+ * to a query. See {@link encodeServerInfoPairs}.
+ */
+export function encodeServerInfo(info: ServerInfo): string {
+	return encodeServerInfoPairs(info)
+		.map(([key, value]) => `\\${key}\\${value}`)
+		.join('');
+}
+
+/** Encodes a value into its response string form. Inverse of {@link parseValue}. */
+function encodeValue(value: unknown): string {
+	return value === null || value === undefined ? '' : String(value);
 }
 
 /** Parses a server response value into the most appropriate type. */
@@ -185,84 +329,124 @@ function parseValue(value: string): InfoValue {
 	return value === '' ? null : value;
 }
 
+const PLAYER_FLAGS = new Struct<PlayerFlags>([
+	{ name: 'lives', size: 2 },
+	{ name: 'health_percent', size: 3 },
+	{ name: 'shields_enabled', size: 1 },
+	{ name: 'respawn_time', size: 2 },
+	{ name: 'respawn_growth', size: 2 },
+	{ name: 'odd_man_out', size: 1 },
+	{ name: 'invisible', size: 1 },
+	{ name: 'suicide_penalty', size: 2 },
+	{ name: 'infinite_grenades', size: 1 }, // Keep this off, you animals
+	{ name: 'weapon_set', size: 4 },
+	{ name: 'default_equipment', size: 1 },
+	{ name: 'indicator', size: 2 },
+	{ name: 'players_on_radar', size: 2 },
+	{ name: 'friend_indicators', size: 1 },
+	{ name: 'friendly_fire', size: 2 },
+	{ name: 'friendly_fire_penalty', size: 2 },
+	{ name: 'auto_balance', size: 1 },
+]);
+
+const VEHICLE_FLAGS = new Struct<VehicleFlags>([
+	{ name: 'respawn_time', size: 3 },
+	{ name: 'red_team', size: 4 },
+	{ name: 'blue_team', size: 4 },
+]);
+
+const GAME_TYPE_FIELD: Bitfield<BaseGameFlags> = { name: 'game_type', size: 3 };
+
+/** The game flag fields for each game type, by `game_type` value. */
+const GAME_FLAGS: Record<number, Struct<GameFlags>> = {
+	// This is not a valid type in the vanilla server, but apparently
+	// some extensions use game_type = 0 for custom game types.
+	// In this case, we don't know what the flags mean.
+	0: new Struct<BaseGameFlags>([GAME_TYPE_FIELD]),
+
+	1: new Struct<CTFFlags>([
+		GAME_TYPE_FIELD,
+		{ name: 'assault', size: 2 }, // Second bit unused
+		{ name: 'flag_must_reset', size: 1 },
+		{ name: 'flag_must_be_home', size: 1 },
+		{ name: 'single_flag_time', size: 3 },
+	]),
+
+	2: new Struct<SlayerFlags>([
+		GAME_TYPE_FIELD,
+		{ name: 'death_bonus', size: 2 }, // Second bit unused
+		{ name: 'kill_penalty', size: 1 },
+		{ name: 'kill_in_order', size: 1 },
+	]),
+
+	3: new Struct<OddballFlags>([
+		GAME_TYPE_FIELD,
+		{ name: 'random_start', size: 2 }, // Second bit unused
+		{ name: 'ball_speed_percent', size: 2 },
+		{ name: 'trait_with_ball', size: 2 },
+		{ name: 'trait_without_ball', size: 2 },
+		{ name: 'ball_type', size: 2 },
+		{ name: 'num_balls', size: 5 },
+	]),
+
+	4: new Struct<KingFlags>([
+		GAME_TYPE_FIELD,
+		{ name: 'moving_hill', size: 1 },
+	]),
+
+	5: new Struct<RaceFlags>([
+		GAME_TYPE_FIELD,
+		{ name: 'race_type', size: 2 },
+		{ name: 'team_scoring', size: 2 },
+	]),
+} as Record<number, Struct<GameFlags>>;
+
 function decodePlayerFlags(value: number): PlayerFlags {
-	return new Struct<PlayerFlags>([
-		{ name: 'lives', size: 2 },
-		{ name: 'health_percent', size: 3 },
-		{ name: 'shields_enabled', size: 1 },
-		{ name: 'respawn_time', size: 2 },
-		{ name: 'respawn_growth', size: 2 },
-		{ name: 'odd_man_out', size: 1 },
-		{ name: 'invisible', size: 1 },
-		{ name: 'suicide_penalty', size: 2 },
-		{ name: 'infinite_grenades', size: 1 }, // Keep this off, you animals
-		{ name: 'weapon_set', size: 4 },
-		{ name: 'default_equipment', size: 1 },
-		{ name: 'indicator', size: 2 },
-		{ name: 'players_on_radar', size: 2 },
-		{ name: 'friend_indicators', size: 1 },
-		{ name: 'friendly_fire', size: 2 },
-		{ name: 'friendly_fire_penalty', size: 2 },
-		{ name: 'auto_balance', size: 1 },
-	]).decode(value);
+	return PLAYER_FLAGS.decode(value);
 }
 
 function decodeVehicleFlags(value: number): VehicleFlags {
-	return new Struct<VehicleFlags>([
-		{ name: 'respawn_time', size: 3 },
-		{ name: 'red_team', size: 4 },
-		{ name: 'blue_team', size: 4 },
-	]).decode(value);
+	return VEHICLE_FLAGS.decode(value);
 }
 
 function decodeGameFlags(value: number): GameFlags {
 	// We didn't make a Union type, so we do this instead.
-	const gameType = value & 0x3;
-	const gameTypeField: Bitfield<BaseGameFlags> =
-			{ name: 'game_type', size: 3 };
-
-	switch (gameType) {
-		// This is not a valid type in the vanilla server, but apparently
-		// some extensions use game_type = 0 for custom game types.
-		// In this case, we don't know what the flags mean.
-		case 0: return { game_type: 0 };
-
-		case 1: return new Struct<CTFFlags>([
-			gameTypeField,
-			{ name: 'assault', size: 2 }, // Second bit unused
-			{ name: 'flag_must_reset', size: 1 },
-			{ name: 'flag_must_be_home', size: 1 },
-			{ name: 'single_flag_time', size: 3 },
-		]).decode(value);
-
-		case 2: return new Struct<SlayerFlags>([
-			gameTypeField,
-			{ name: 'death_bonus', size: 2 }, // Second bit unused
-			{ name: 'kill_penalty', size: 1 },
-			{ name: 'kill_in_order', size: 1 },
-		]).decode(value);
-
-		case 3: return new Struct<OddballFlags>([
-			gameTypeField,
-			{ name: 'random_start', size: 2 }, // Second bit unused
-			{ name: 'ball_speed_percent', size: 2 },
-			{ name: 'trait_with_ball', size: 2 },
-			{ name: 'trait_without_ball', size: 2 },
-			{ name: 'ball_type', size: 2 },
-			{ name: 'num_balls', size: 5 },
-		]).decode(value);
-
-		case 4: return new Struct<KingFlags>([
-			gameTypeField,
-			{ name: 'moving_hill', size: 1 },
-		]).decode(value);
-
-		case 5: return new Struct<RaceFlags>([
-			gameTypeField,
-			{ name: 'race_type', size: 2 },
-			{ name: 'team_scoring', size: 2 },
-		]).decode(value);
-
-		default: throw new Error(`Unrecognized gametype code ${gameType} in flags ${value}`);
+	const gameType = value & 0x7;
+	// We don't know what the flags mean for game types we don't recognize.
+	return (GAME_FLAGS[gameType] ?? GAME_FLAGS[0]).decode(value);
+}
+
+/**
+ * Encodes player flags into the `player_flags` value a server sends.
+ * Inverse of the decoding done by {@link parseServerInfo}.
+ *
+ * @throws If any field is missing or out of range.
+ */
+export function encodePlayerFlags(flags: PlayerFlags): number {
+	return PLAYER_FLAGS.encode(flags);
+}
+
+/**
+ * Encodes vehicle flags into the `vehicle_flags` value a server sends
+ * (after the comma in `player_flags`).
+ *
+ * @throws If any field is missing or out of range.
+ */
+export function encodeVehicleFlags(flags: VehicleFlags): number {
+	return VEHICLE_FLAGS.encode(flags);
+}
+
+/**
+ * Encodes game flags into the `game_flags` value a server sends. Which fields
+ * are needed depends on `game_type`.
+ *
+ * @throws If the game type is unrecognized, or any field is missing or out
+ * of range.
+ */
+export function encodeGameFlags(flags: GameFlags): number {
+	const struct = GAME_FLAGS[flags.game_type];
+	if (!struct) {
+		throw new Error(`Unrecognized gametype code ${flags.game_type}`);
 	}
+	return struct.encode(flags);
 }
@@ -0,0 +1,97 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+
+/** Describes how many times to try a request, and how long to wait between. */
+export interface RetryPolicy {
+	/** Total number of attempts, including the first one. */
+	attempts: number;
+	/** Milliseconds to wait before the first retry. */
+	backoff: number;
+	/** Multiplier applied to the wait after each retry. */
+	factor: number;
+	/**
+	 * Fraction (0 to 1) of each wait that is randomized, so many clients
+	 * retrying at once don't all hit the server at the same moment.
+	 */
+	jitter: number;
+}
+
+/** By default, requests are only tried once. */
+export const DEFAULT_RETRY_POLICY: Readonly<RetryPolicy> = Object.freeze({
+	attempts: 1,
+	backoff: 250,
+	factor: 2,
+	jitter: 0.2,
+});
+
+/**
+ * Fills in any missing (or `undefined`) fields of a policy with
+ * {@link DEFAULT_RETRY_POLICY}.
+ */
+export function makeRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+	return {
+		attempts: policy?.attempts ?? DEFAULT_RETRY_POLICY.attempts,
+		backoff:  policy?.backoff  ?? DEFAULT_RETRY_POLICY.backoff,
+		factor:   policy?.factor   ?? DEFAULT_RETRY_POLICY.factor,
+		jitter:   policy?.jitter   ?? DEFAULT_RETRY_POLICY.jitter,
+	};
+}
+
+/**
+ * Calculates how long to wait before the given retry.
+ *
+ * @param retry Which retry this is, starting at 1.
+ */
+export function retryDelay(policy: RetryPolicy, retry: number): number {
+	const delay = policy.backoff * Math.pow(policy.factor, Math.max(0, retry - 1));
+	const jitter = delay * policy.jitter * (Math.random() * 2 - 1);
+	return Math.max(0, Math.round(delay + jitter));
+}
+
+/**
+ * Resolves after the given number of milliseconds, or as soon as the signal
+ * aborts, whichever comes first.
+ */
+export async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	if (signal?.aborted) return;
+
+	return new Promise(resolve => {
+		const onAbort = (): void => {
+			clearTimeout(timer);
+			resolve();
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+/**
+ * Calls the given function until it succeeds or the policy runs out of
+ * attempts. Errors that `shouldRetry` rejects are thrown immediately.
+ * Otherwise, the last error is thrown.
+ */
+export async function withRetry<T>(
+	policy: RetryPolicy,
+	func: (attempt: number) => Promise<T>,
+	shouldRetry: (err: Error) => boolean = () => true,
+): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await func(attempt);
+		} catch (err) {
+			if (attempt >= policy.attempts || !shouldRetry(err as Error)) {
+				throw err;
+			}
+			await sleep(retryDelay(policy, attempt));
+		}
+	}
+}
@@ -0,0 +1,160 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { ParsedServerResponse, ParsedServerResult, isResponse } from './handler';
+
+/**
+ * The multiplayer maps that ship with the game. Every other map a server runs
+ * is a custom map.
+ */
+export const STOCK_MAPS: readonly string[] = Object.freeze([
+	'beavercreek',
+	'bloodgulch',
+	'boardingaction',
+	'carousel',
+	'chillout',
+	'damnation',
+	'dangercanyon',
+	'deathisland',
+	'gephyrophobia',
+	'hangemhigh',
+	'icefields',
+	'infinity',
+	'longest',
+	'prisoner',
+	'putput',
+	'ratrace',
+	'sidewinder',
+	'timberland',
+	'wizard',
+]);
+
+/** How many servers and players share a value (e.g. a map). */
+export interface StatsBucket {
+	name: string;
+	servers: number;
+	players: number;
+}
+
+/** Aggregate statistics for a set of servers. */
+export interface PopulationStats {
+	/** Every server queried. */
+	servers: number;
+	/** Servers that responded. The rest of the stats only count these. */
+	responding: number;
+	players: number;
+	/** Servers that need a password to join. */
+	passworded: number;
+	/** Players on password-protected servers. */
+	passwordedPlayers: number;
+	/** Breakdowns, busiest first. */
+	byMap: StatsBucket[];
+	byGametype: StatsBucket[];
+	byVersion: StatsBucket[];
+	/** Like {@link byMap}, but only maps that aren't in {@link STOCK_MAPS}. */
+	customMaps: StatsBucket[];
+}
+
+/** Statistics for the servers from one master list. */
+export type GameStats = PopulationStats & {
+	/** The master server, or `null` for servers given by address. */
+	game: string | null;
+};
+
+export interface StatsReport {
+	/** Every server together. */
+	total: PopulationStats;
+	/** Each master list on its own, in the order first seen. */
+	games: GameStats[];
+}
+
+/** Aggregates a set of query results into population statistics. */
+export function computeStats(results: ParsedServerResult[]): PopulationStats {
+	const responses = results.filter(isResponse);
+	const passworded = responses.filter(result => result.data.password);
+
+	return {
+		servers: results.length,
+		responding: responses.length,
+		players: sumPlayers(responses),
+		passworded: passworded.length,
+		passwordedPlayers: sumPlayers(passworded),
+		byMap: breakdown(responses, result => result.data.mapname),
+		byGametype: breakdown(responses, result => result.data.gametype),
+		byVersion: breakdown(responses, result => result.data.gamever),
+		customMaps: breakdown(
+			responses.filter(result => !isStockMap(result.data.mapname)),
+			result => result.data.mapname,
+		),
+	};
+}
+
+/**
+ * Aggregates a set of query results, both as a whole and for each master list
+ * the servers came from, so the lists can be compared.
+ */
+export function computeStatsReport(results: ParsedServerResult[]): StatsReport {
+	const groups = new Map<string | null, ParsedServerResult[]>();
+	results.forEach(result => {
+		if (!groups.has(result.game)) {
+			groups.set(result.game, []);
+		}
+		groups.get(result.game)!.push(result);
+	});
+
+	return {
+		total: computeStats(results),
+		games: Array.from(groups, ([game, group]) => ({ game, ...computeStats(group) })),
+	};
+}
+
+/** Whether the map ships with the game. Map names are case-insensitive. */
+export function isStockMap(map: unknown): boolean {
+	return typeof map === 'string' && STOCK_MAPS.includes(map.toLowerCase());
+}
+
+/**
+ * How many players are on a server. Prefers `numplayers`, since servers
+ * don't always list every player.
+ */
+function playerCount(result: ParsedServerResponse): number {
+	const { numplayers, players } = result.data;
+	if (typeof numplayers === 'number') return numplayers;
+	return (players ?? []).filter(player => player).length;
+}
+
+function sumPlayers(results: ParsedServerResponse[]): number {
+	return results.reduce((total, result) => total + playerCount(result), 0);
+}
+
+/**
+ * Groups servers by some value, counting the servers and players in each
+ * group. Values are grouped case-insensitively (servers disagree on how to
+ * capitalize map names), keeping the first spelling seen. Groups are sorted by
+ * players, then servers, then name.
+ */
+function breakdown(
+	results: ParsedServerResponse[],
+	key: (result: ParsedServerResponse) => unknown,
+): StatsBucket[] {
+	const buckets = new Map<string, StatsBucket>();
+	results.forEach(result => {
+		const value = key(result);
+		const name = value === null || value === undefined ? '' : String(value);
+		const bucket = buckets.get(name.toLowerCase()) ?? { name, servers: 0, players: 0 };
+		bucket.servers++;
+		bucket.players += playerCount(result);
+		buckets.set(name.toLowerCase(), bucket);
+	});
+
+	return Array.from(buckets.values()).sort((a, b) => (
+		b.players - a.players ||
+		b.servers - a.servers ||
+		a.name.localeCompare(b.name)
+	));
+}
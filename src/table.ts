@@ -0,0 +1,239 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { ParsedServerResult, isResponse } from './handler';
+import { InfoValue } from './response';
+
+/** A column of server information that can be shown in a table. */
+export interface Column {
+	header: string;
+	/** Numbers read better right-aligned. */
+	align: 'left' | 'right';
+	/** The text shown in the cell. */
+	value: (result: ParsedServerResult) => string;
+	/** What the column sorts by, if not the cell text. */
+	sortKey?: (result: ParsedServerResult) => string | number;
+}
+
+/** Every column available to {@link renderTable}, by name. */
+export const TABLE_COLUMNS = Object.freeze({
+	hostname: {
+		header: 'HOSTNAME',
+		align: 'left',
+		value: result => infoText(result, 'hostname'),
+	},
+	address: {
+		header: 'ADDRESS',
+		align: 'left',
+		value: result => `${result.address}:${result.port}`,
+	},
+	map: {
+		header: 'MAP',
+		align: 'left',
+		value: result => infoText(result, 'mapname'),
+	},
+	gametype: {
+		header: 'GAMETYPE',
+		align: 'left',
+		value: result => infoText(result, 'gametype'),
+	},
+	players: {
+		header: 'PLAYERS',
+		align: 'right',
+		value: result => isResponse(result)
+			? `${infoText(result, 'numplayers')}/${infoText(result, 'maxplayers')}`
+			: '',
+		sortKey: result => infoNumber(result, 'numplayers'),
+	},
+	password: {
+		header: 'PASSWORD',
+		align: 'left',
+		value: result => {
+			if (!isResponse(result)) return '';
+			return result.data.password ? 'yes' : 'no';
+		},
+	},
+	weapons: {
+		header: 'WEAPONS',
+		align: 'left',
+		value: result => isResponse(result)
+			? result.data.player_flags_labels?.weapon_set ?? ''
+			: '',
+	},
+	version: {
+		header: 'VERSION',
+		align: 'left',
+		value: result => infoText(result, 'gamever'),
+	},
+	ping: {
+		header: 'PING',
+		align: 'right',
+		value: result => isResponse(result) ? String(result.ping) : '',
+		sortKey: result => isResponse(result) ? result.ping : Number.POSITIVE_INFINITY,
+	},
+	status: {
+		header: 'STATUS',
+		align: 'left',
+		value: result => result.status,
+	},
+	game: {
+		header: 'GAME',
+		align: 'left',
+		value: result => result.game ?? '',
+	},
+} satisfies Record<string, Column>);
+
+export type ColumnName = keyof typeof TABLE_COLUMNS;
+
+/** The columns shown when none are chosen. */
+export const DEFAULT_TABLE_COLUMNS: readonly ColumnName[] = Object.freeze([
+	'hostname', 'address', 'map', 'gametype', 'players', 'password', 'version',
+]);
+
+/** Hostnames longer than this are truncated by default. */
+export const DEFAULT_MAX_HOSTNAME_LENGTH = 32;
+
+export interface TableOpts {
+	/** Which columns to show, in order. Defaults to {@link DEFAULT_TABLE_COLUMNS}. */
+	columns?: ColumnName[];
+	/** Sort rows by this column. By default, rows keep their original order. */
+	sortBy?: ColumnName;
+	/** Sort in descending order instead. */
+	descending?: boolean;
+	/**
+	 * Truncate hostnames longer than this. Use 0 for no limit.
+	 * Defaults to {@link DEFAULT_MAX_HOSTNAME_LENGTH}.
+	 */
+	maxHostnameLength?: number;
+	/** Show each server's players in a sub-table under its row. */
+	players?: boolean;
+	/** Show each server's teams in a sub-table under its row. */
+	teams?: boolean;
+}
+
+/** How far sub-tables are indented under their server's row. */
+const SUBTABLE_INDENT = '    ';
+const COLUMN_GAP = '  ';
+const ELLIPSIS = '…';
+
+/** Type guard for checking a string is the name of a {@link TABLE_COLUMNS} column. */
+export function isColumnName(name: string): name is ColumnName {
+	return Object.keys(TABLE_COLUMNS).includes(name);
+}
+
+/**
+ * Renders query results as a table of aligned columns, with a header row.
+ * Servers that didn't respond only fill in the columns that don't need a
+ * response (like address and status).
+ */
+export function renderTable(results: ParsedServerResult[], opts?: TableOpts): string {
+	const names = opts?.columns ?? DEFAULT_TABLE_COLUMNS;
+	const columns: Column[] = names.map(name => TABLE_COLUMNS[name]);
+	const maxHostname = opts?.maxHostnameLength ?? DEFAULT_MAX_HOSTNAME_LENGTH;
+
+	const rows = opts?.sortBy
+		? sortResults(results, opts.sortBy, opts.descending)
+		: results;
+
+	const cells = rows.map(result => names.map((name, i) => {
+		const text = columns[i].value(result);
+		return name === 'hostname' ? truncate(text, maxHostname) : text;
+	}));
+	const widths = columnWidths(columns.map(col => col.header), cells);
+	const aligns = columns.map(col => col.align);
+
+	const lines = [formatRow(columns.map(col => col.header), widths, aligns)];
+	rows.forEach((result, i) => {
+		lines.push(formatRow(cells[i], widths, aligns));
+		if (!isResponse(result)) return;
+
+		if (opts?.players && result.data.players?.length) {
+			lines.push(...renderRecords(result.data.players).map(line => SUBTABLE_INDENT + line));
+		}
+		if (opts?.teams && result.data.teams?.length) {
+			lines.push(...renderRecords(result.data.teams).map(line => SUBTABLE_INDENT + line));
+		}
+	});
+
+	return lines.join('\n');
+}
+
+/**
+ * Renders a list of players or teams as table lines, with a column for every
+ * key any of them has. Empty slots in the list are skipped.
+ */
+export function renderRecords(records: Record<string, InfoValue>[]): string[] {
+	const present = records.filter(record => record);
+	const keys = Array.from(new Set(present.flatMap(record => Object.keys(record))));
+
+	const cells = present.map(record => keys.map(key => valueText(record[key])));
+	const aligns = keys.map(key => (
+		present.every(record => typeof record[key] !== 'string') ? 'right' : 'left'
+	) as Column['align']);
+	const headers = keys.map(key => key.toUpperCase());
+	const widths = columnWidths(headers, cells);
+
+	return [headers, ...cells].map(row => formatRow(row, widths, aligns));
+}
+
+/** Sorts results by a column. Ties keep their original order. */
+export function sortResults<T extends ParsedServerResult>(
+	results: T[],
+	column: ColumnName,
+	descending = false,
+): T[] {
+	const col: Column = TABLE_COLUMNS[column];
+	const key = col.sortKey ?? col.value;
+	const direction = descending ? -1 : 1;
+
+	return [...results].sort((a, b) => {
+		const keyA = key(a);
+		const keyB = key(b);
+		if (typeof keyA === 'number' && typeof keyB === 'number') {
+			return (keyA - keyB) * direction;
+		}
+		return String(keyA).localeCompare(String(keyB), undefined, { sensitivity: 'base' }) * direction;
+	});
+}
+
+/** Finds the widest cell in each column, including the header. */
+function columnWidths(headers: string[], rows: string[][]): number[] {
+	return headers.map((header, i) => Math.max(
+		header.length,
+		...rows.map(row => row[i].length),
+	));
+}
+
+function formatRow(cells: string[], widths: number[], aligns: Column['align'][]): string {
+	return cells
+		.map((cell, i) => aligns[i] === 'right'
+			? cell.padStart(widths[i])
+			: cell.padEnd(widths[i])
+		)
+		.join(COLUMN_GAP)
+		.trimEnd();
+}
+
+function truncate(text: string, max: number): string {
+	if (max <= 0 || text.length <= max) return text;
+	return text.substring(0, max - ELLIPSIS.length) + ELLIPSIS;
+}
+
+function infoText(result: ParsedServerResult, key: string): string {
+	return isResponse(result) ? valueText(result.data[key] as InfoValue) : '';
+}
+
+/** Reads a numeric info field for sorting. Missing values sort first. */
+function infoNumber(result: ParsedServerResult, key: string): number {
+	const value = isResponse(result) ? result.data[key] : undefined;
+	return typeof value === 'number' ? value : Number.NEGATIVE_INFINITY;
+}
+
+function valueText(value: InfoValue | undefined): string {
+	return value === null || value === undefined ? '' : String(value);
+}
@@ -0,0 +1,103 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { sleep } from './retry';
+
+/** Limits on how fast queries are sent. Everything is unlimited by default. */
+export interface ThrottleOpts {
+	/** Maximum number of queries awaiting a response at once. */
+	maxInFlight?: number;
+	/** Maximum number of queries sent per second. */
+	packetsPerSecond?: number;
+	/**
+	 * Send queries in batches of this size. Each batch waits for every query
+	 * in the previous batch to be answered (or to expire) before sending.
+	 */
+	batchSize?: number;
+}
+
+/**
+ * Hands out permission to send queries according to {@link ThrottleOpts}.
+ *
+ * Each query holds a slot from {@link acquire} until {@link release} is
+ * called with the same key, which should happen once the query is answered
+ * or given up on. Slots are granted in the order they were requested.
+ */
+export class Throttle {
+	private maxInFlight: number;
+	private interval: number;
+	private inFlight = new Set<string>();
+	private waiting: { key: string; resolve: () => void }[] = [];
+	private idleWaiters: (() => void)[] = [];
+	private nextSend = 0;
+
+	constructor(opts?: ThrottleOpts) {
+		this.maxInFlight = opts?.maxInFlight ?? Number.POSITIVE_INFINITY;
+		this.interval = opts?.packetsPerSecond ? 1000 / opts.packetsPerSecond : 0;
+	}
+
+	/**
+	 * Resolves once the query with the given key may be sent, or as soon as
+	 * the signal aborts. An aborted caller may or may not hold a slot, so it
+	 * should still call {@link release}.
+	 */
+	async acquire(key: string, signal?: AbortSignal): Promise<void> {
+		if (signal?.aborted) return;
+
+		await new Promise<void>(resolve => {
+			const onAbort = (): void => {
+				this.waiting = this.waiting.filter(waiter => waiter !== entry);
+				resolve();
+			};
+			const entry = {
+				key,
+				resolve: (): void => {
+					signal?.removeEventListener('abort', onAbort);
+					resolve();
+				},
+			};
+			signal?.addEventListener('abort', onAbort, { once: true });
+			this.waiting.push(entry);
+			this.pump();
+		});
+		if (signal?.aborted) return;
+
+		// Reserve the next send time now, so concurrent callers space out.
+		const now = performance.now();
+		const sendAt = Math.max(now, this.nextSend);
+		this.nextSend = sendAt + this.interval;
+		if (sendAt > now) {
+			await sleep(sendAt - now, signal);
+		}
+	}
+
+	/** Frees the slot held by the given key. Does nothing if it holds none. */
+	release(key: string): void {
+		if (!this.inFlight.delete(key)) return;
+		this.pump();
+		if (this.inFlight.size === 0) {
+			this.idleWaiters.forEach(resolve => resolve());
+			this.idleWaiters = [];
+		}
+	}
+
+	/** Resolves once no slots are held. */
+	async idle(): Promise<void> {
+		if (this.inFlight.size === 0) return;
+		return new Promise(resolve => this.idleWaiters.push(resolve));
+	}
+
+	/** Grants waiting slots until we hit the in-flight limit. */
+	private pump(): void {
+		while (this.waiting.length > 0 && this.inFlight.size < this.maxInFlight) {
+			const { key, resolve } = this.waiting.shift()!;
+			this.inFlight.add(key);
+			resolve();
+		}
+	}
+}
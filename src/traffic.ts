@@ -0,0 +1,203 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { promises as fs } from 'fs';
+
+import { DatagramClient, UDPResponse } from './network';
+import { addressKey } from './transport';
+
+/** Bumped whenever the capture format changes incompatibly. */
+export const TRAFFIC_CAPTURE_VERSION = 1;
+
+/** One request to the master server, and what came of it. */
+export interface MasterExchange {
+	game: string;
+	/** The validation key the response was encrypted with. */
+	validationKey: string;
+	/** The raw (still encrypted) response, base64 encoded. */
+	response?: string;
+	/** Why the request failed, if it did. */
+	error?: string;
+}
+
+/** A UDP packet sent to or received from a game server. */
+export interface DatagramRecord {
+	direction: 'sent' | 'received';
+	address: string;
+	port: number;
+	/** The raw packet, base64 encoded. */
+	data: string;
+	/** Milliseconds since recording started. */
+	time: number;
+}
+
+/**
+ * Everything said between us and the master and game servers, in the order
+ * it happened. This is plain JSON, so it can be saved and attached to bug
+ * reports.
+ */
+export interface TrafficCapture {
+	version: number;
+	master: MasterExchange[];
+	udp: DatagramRecord[];
+}
+
+/** Options for recording or replaying traffic. */
+export interface TrafficOpts {
+	/** Record all traffic into this. */
+	recordTraffic?: TrafficRecorder;
+	/**
+	 * Answer every request from this capture instead of the network.
+	 * Requests the capture has no answer for fail (or time out) as if the
+	 * server never responded.
+	 */
+	replayTraffic?: TrafficReplay;
+}
+
+/**
+ * Records raw master server responses and game server packets, so a query
+ * can be replayed later with {@link TrafficReplay}.
+ */
+export class TrafficRecorder {
+	readonly capture: TrafficCapture = {
+		version: TRAFFIC_CAPTURE_VERSION,
+		master: [],
+		udp: [],
+	};
+	private start = performance.now();
+
+	/** Records a master server request. */
+	recordMaster(game: string, validationKey: string, response: Buffer | Error): void {
+		this.capture.master.push(response instanceof Error
+			? { game, validationKey, error: response.message }
+			: { game, validationKey, response: response.toString('base64') }
+		);
+	}
+
+	/** Records a UDP packet. */
+	recordDatagram(direction: DatagramRecord['direction'], address: string, port: number, data: Buffer): void {
+		this.capture.udp.push({
+			direction,
+			address,
+			port,
+			data: data.toString('base64'),
+			time: Math.round(performance.now() - this.start),
+		});
+	}
+
+	/** Wraps a client so every packet it sends and receives is recorded. */
+	wrap(client: DatagramClient): DatagramClient {
+		return {
+			listen: (onMessage, onError) => client.listen(response => {
+				this.recordDatagram('received', response.address, response.port, response.data);
+				onMessage(response);
+			}, onError),
+			write: async (address, port, message) => {
+				this.recordDatagram('sent', address, port, Buffer.from(message));
+				return client.write(address, port, message);
+			},
+			close: () => client.close(),
+		};
+	}
+
+	toJSON(): TrafficCapture {
+		return this.capture;
+	}
+}
+
+/** A packet sent to a game server, and the packets it sent back. */
+interface Exchange {
+	sentAt: number;
+	replies: DatagramRecord[];
+}
+
+/**
+ * Replays a {@link TrafficCapture}, so a query can be rerun exactly as it
+ * happened without touching the network.
+ *
+ * Master server requests are answered with the recorded responses, in order,
+ * and decrypted with the recorded validation keys. Each packet sent to a game
+ * server is answered with whatever that server sent back after the matching
+ * packet in the capture, with the same timing.
+ */
+export class TrafficReplay {
+	private master: MasterExchange[];
+	private exchanges = new Map<string, Exchange[]>();
+
+	constructor(capture: TrafficCapture) {
+		if (capture?.version !== TRAFFIC_CAPTURE_VERSION) {
+			throw new Error(`Unsupported traffic capture version: ${capture?.version}`);
+		}
+		this.master = [...capture.master];
+
+		capture.udp.forEach(record => {
+			const key = addressKey(record);
+			if (!this.exchanges.has(key)) {
+				this.exchanges.set(key, []);
+			}
+			const exchanges = this.exchanges.get(key)!;
+
+			if (record.direction === 'sent') {
+				exchanges.push({ sentAt: record.time, replies: [] });
+			} else if (exchanges.length > 0) {
+				exchanges[exchanges.length - 1].replies.push(record);
+			}
+		});
+	}
+
+	/**
+	 * Takes the next recorded master server exchange for the given game.
+	 * Throws if the capture doesn't have one.
+	 */
+	nextMasterExchange(game: string): MasterExchange {
+		const index = this.master.findIndex(exchange => exchange.game === game);
+		if (index === -1) {
+			throw new Error(`No master server response for ${game} in the traffic capture`);
+		}
+		return this.master.splice(index, 1)[0];
+	}
+
+	/** Makes a client that answers packets from the capture. */
+	createClient(): DatagramClient {
+		const listeners = new Set<(response: UDPResponse) => void>();
+		const timers = new Set<NodeJS.Timeout>();
+
+		return {
+			listen: onMessage => {
+				listeners.add(onMessage);
+				return () => listeners.delete(onMessage);
+			},
+			write: async (address, port, message) => {
+				const exchange = this.exchanges.get(addressKey({ address, port }))?.shift();
+				exchange?.replies.forEach(reply => {
+					const timer = setTimeout(() => {
+						timers.delete(timer);
+						const response = { address, port, data: Buffer.from(reply.data, 'base64') };
+						listeners.forEach(listener => listener(response));
+					}, reply.time - exchange.sentAt);
+					timers.add(timer);
+				});
+				return Buffer.byteLength(message);
+			},
+			close: () => {
+				timers.forEach(timer => clearTimeout(timer));
+				listeners.clear();
+			},
+		};
+	}
+}
+
+/** Saves a traffic capture to a file. */
+export async function saveTrafficCapture(file: string, capture: TrafficCapture): Promise<void> {
+	await fs.writeFile(file, JSON.stringify(capture) + '\n');
+}
+
+/** Reads a traffic capture saved with {@link saveTrafficCapture}. */
+export async function loadTrafficCapture(file: string): Promise<TrafficCapture> {
+	return JSON.parse(await fs.readFile(file, 'utf8'));
+}
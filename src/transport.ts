@@ -0,0 +1,273 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { promises as dns } from 'dns';
+import { isIP } from 'net';
+
+import {
+	DEFAULT_END_DELAY_MS,
+	DEFAULT_TIMEOUT_MS,
+	DatagramClient,
+	ServerAddress,
+	UDPClient,
+	UDPResponse,
+} from './network';
+import { FINAL_MARKER, isCompleteResponse } from './reassembly';
+import type { TrafficOpts } from './traffic';
+
+/** Game servers recognize a single backslash as an info query. */
+export const INFO_QUERY = '\\';
+
+export { FINAL_MARKER };
+
+export interface TransportRequestOpts {
+	/** How long to wait (in milliseconds) for the first packet. */
+	timeout?: number;
+	/**
+	 * How long to wait (in milliseconds) after the most recent packet before
+	 * considering the response complete. Responses are considered complete
+	 * immediately once the packet with the {@link FINAL_MARKER} and every
+	 * packet before it have arrived.
+	 */
+	endDelay?: number;
+	/**
+	 * Cancels the request. If any packets were already received, the request
+	 * resolves with them. Otherwise it rejects with a {@link QueryAbortError}.
+	 */
+	signal?: AbortSignal;
+}
+
+/** A complete response to a single request. */
+export type TransportResponse = ServerAddress & {
+	/**
+	 * Every packet received, in arrival order. They can be put back together
+	 * with `reassemblePackets`.
+	 */
+	packets: Buffer[];
+	/** Time in milliseconds from sending the request to the first packet. */
+	ping: number;
+}
+
+/** Thrown when a server doesn't respond to a request in time. */
+export class QueryTimeoutError extends Error {
+	constructor(server: ServerAddress) {
+		super(`No response from ${server.address}:${server.port}`);
+		this.name = 'QueryTimeoutError';
+	}
+}
+
+/** Thrown when a request is aborted before any response arrived. */
+export class QueryAbortError extends Error {
+	constructor(server: ServerAddress) {
+		super(`Query to ${server.address}:${server.port} was aborted`);
+		this.name = 'QueryAbortError';
+	}
+}
+
+interface PendingRequest {
+	server: ServerAddress;
+	packets: Buffer[];
+	sentAt: number;
+	ping: number;
+	endDelay: number;
+	timer: NodeJS.Timeout;
+	resolve: (response: TransportResponse) => void;
+	reject: (err: Error) => void;
+	cleanup: () => void;
+}
+
+/**
+ * A long-lived query transport that multiplexes many requests over a single
+ * UDP socket.
+ *
+ * Every incoming packet is routed to the pending requests for the "ip:port" it
+ * came from. Packets from servers with no pending request (e.g. late replies
+ * to a request that already timed out) are dropped, so they can't be
+ * attributed to the wrong caller. Any number of callers can share one
+ * transport, which makes it a good fit for long-running pollers.
+ *
+ * GameSpy servers don't echo anything identifying back, so concurrent requests
+ * to the same server all receive the same response.
+ *
+ * Traffic can be recorded or replayed with {@link TrafficOpts}.
+ */
+export class QueryTransport {
+	private client: DatagramClient;
+	private pending = new Map<string, Set<PendingRequest>>();
+	private stopListening: () => void;
+	private closed = false;
+
+	constructor(opts?: TrafficOpts) {
+		this.client = opts?.replayTraffic?.createClient() ?? new UDPClient();
+		if (opts?.recordTraffic) {
+			this.client = opts.recordTraffic.wrap(this.client);
+		}
+		this.stopListening = this.client.listen(
+			response => this.onMessage(response),
+			err => this.onError(err),
+		);
+	}
+
+	/** The number of requests currently awaiting a response. */
+	get size(): number {
+		return Array.from(this.pending.values())
+			.reduce((total, requests) => total + requests.size, 0);
+	}
+
+	/**
+	 * Sends a message to the given server and resolves with its complete
+	 * response. Rejects with a {@link QueryTimeoutError} if the server doesn't
+	 * respond within the timeout.
+	 *
+	 * Hostnames are resolved before sending, since replies are routed by the
+	 * IP they come from. The response keeps the address as it was given.
+	 */
+	async request(
+		server: ServerAddress,
+		message: Uint8Array | string = INFO_QUERY,
+		opts?: TransportRequestOpts,
+	): Promise<TransportResponse> {
+		const address = await resolveAddress(server.address);
+		if (this.closed) {
+			throw new Error('Query transport is closed');
+		}
+		if (opts?.signal?.aborted) {
+			throw new QueryAbortError(server);
+		}
+
+		const key = addressKey({ address, port: server.port });
+		let request!: PendingRequest;
+		const response = new Promise<TransportResponse>((resolve, reject) => {
+			const onAbort = (): void => {
+				if (request.packets.length > 0) {
+					this.complete(key, request);
+				} else {
+					this.settle(key, request);
+					reject(new QueryAbortError(server));
+				}
+			};
+
+			request = {
+				server: { address: server.address, port: server.port },
+				packets: [],
+				sentAt: performance.now(),
+				ping: 0,
+				endDelay: opts?.endDelay ?? DEFAULT_END_DELAY_MS,
+				timer: setTimeout(() => {
+					this.settle(key, request);
+					reject(new QueryTimeoutError(server));
+				}, opts?.timeout ?? DEFAULT_TIMEOUT_MS),
+				resolve,
+				reject,
+				cleanup: () => opts?.signal?.removeEventListener('abort', onAbort),
+			};
+
+			opts?.signal?.addEventListener('abort', onAbort);
+
+			if (!this.pending.has(key)) {
+				this.pending.set(key, new Set());
+			}
+			this.pending.get(key)!.add(request);
+		});
+
+		try {
+			await this.client.write(address, server.port, message);
+		} catch (err) {
+			this.settle(key, request);
+			request.reject(err as Error);
+		}
+
+		return response;
+	}
+
+	/** Rejects every pending request and closes the socket. */
+	close(): void {
+		if (this.closed) return;
+		this.closed = true;
+
+		this.stopListening();
+		Array.from(this.pending.keys()).forEach(key => {
+			this.failAll(key, new Error('Query transport was closed'));
+		});
+		this.client.close();
+	}
+
+	private onMessage(response: UDPResponse): void {
+		const key = addressKey(response);
+		const requests = this.pending.get(key);
+		if (!requests) return;
+
+		const now = performance.now();
+
+		Array.from(requests).forEach(request => {
+			if (request.packets.length === 0) {
+				request.ping = Math.round(now - request.sentAt);
+				clearTimeout(request.timer);
+				request.timer = setTimeout(
+					() => this.complete(key, request),
+					request.endDelay,
+				);
+			} else {
+				request.timer.refresh();
+			}
+			request.packets.push(response.data);
+
+			// Packets can arrive out of order, so the final one isn't
+			// necessarily the last to arrive.
+			if (isCompleteResponse(request.packets)) {
+				this.complete(key, request);
+			}
+		});
+	}
+
+	/** A socket error affects every request, so fail them all. */
+	private onError(err: Error): void {
+		Array.from(this.pending.keys()).forEach(key => this.failAll(key, err));
+	}
+
+	/** Resolves the request with the packets it has received. */
+	private complete(key: string, request: PendingRequest): void {
+		this.settle(key, request);
+		request.resolve({
+			...request.server,
+			packets: request.packets,
+			ping: request.ping,
+		});
+	}
+
+	/** Rejects all requests pending for the given key. */
+	private failAll(key: string, err: Error): void {
+		Array.from(this.pending.get(key) ?? []).forEach(request => {
+			this.settle(key, request);
+			request.reject(err);
+		});
+	}
+
+	/** Stops tracking the request. */
+	private settle(key: string, request: PendingRequest): void {
+		clearTimeout(request.timer);
+		request.cleanup();
+
+		const requests = this.pending.get(key);
+		requests?.delete(request);
+		if (requests?.size === 0) {
+			this.pending.delete(key);
+		}
+	}
+}
+
+/** Resolves a hostname to the IPv4 address its replies will come from. */
+async function resolveAddress(address: string): Promise<string> {
+	if (isIP(address)) return address;
+	return (await dns.lookup(address, { family: 4 })).address;
+}
+
+/** Makes an "ip:port" string key for the given address. */
+export function addressKey(server: ServerAddress): string {
+	return `${server.address}:${server.port}`;
+}
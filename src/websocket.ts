@@ -0,0 +1,497 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import * as HTTP from 'http';
+import { Duplex } from 'stream';
+
+import type { CachedServer } from './api';
+import { GameKeys } from './gamespy';
+import { isResponse } from './handler';
+import { MonitorEvent, ServerMonitor } from './monitor';
+import { addressKey } from './transport';
+
+/** The path clients connect to for live updates. */
+export const LIVE_UPDATES_PATH = '/live';
+
+/** Magic string from RFC 6455 used to accept a WebSocket handshake. */
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+/** We only expect small JSON messages from clients. */
+const MAX_MESSAGE_SIZE = 64 * 1024;
+/** Keeps idle connections from being dropped by proxies. */
+const PING_INTERVAL_MS = 30000;
+
+/** Info fields that change on every query, so aren't worth pushing. */
+const VOLATILE_INFO_KEYS = ['queryid', 'final'];
+
+enum Opcode {
+	Continuation = 0x0,
+	Text = 0x1,
+	Binary = 0x2,
+	Close = 0x8,
+	Ping = 0x9,
+	Pong = 0xA,
+}
+
+/** A message a client sends to change its subscriptions. */
+export type LiveRequest = {
+	type: 'subscribe' | 'unsubscribe';
+} & (
+	| { server: string; game?: undefined }
+	| { game: string; server?: undefined }
+);
+
+/** A message pushed to clients. */
+export type LiveMessage =
+	/**
+	 * Sent on subscribing to a server, and again when the server first shows
+	 * up in a poll.
+	 */
+	| { type: 'snapshot'; updated: string | null; server: string; result: CachedServer | null }
+	/** Sent on subscribing to a game's master list. */
+	| { type: 'snapshot'; updated: string | null; game: string; servers: CachedServer[] }
+	/**
+	 * Sent when a poll finds a change to a subscribed server. `patch` is a
+	 * JSON Merge Patch (RFC 7386) against the server's previous state, and
+	 * `events` describes the same changes at a higher level.
+	 */
+	| { type: 'diff'; updated: string; server: string; patch: object; events: MonitorEvent[] }
+	/** Sent when a server appears in a subscribed game's master list. */
+	| { type: 'added'; updated: string; game: string; server: string; result: CachedServer }
+	/** Sent when a server drops off a subscribed game's master list. */
+	| { type: 'removed'; updated: string; game: string; server: string }
+	| { type: 'error'; error: string };
+
+/** Where {@link LiveUpdateServer} gets its data from. */
+export interface LiveUpdateSource {
+	readonly monitor: ServerMonitor;
+	/** When the most recent poll finished, or `null` before the first one. */
+	readonly updated: string | null;
+	/** The results of the most recent poll. */
+	servers(): CachedServer[];
+}
+
+/**
+ * The server side of a single WebSocket connection. Only text messages are
+ * supported, which is all JSON needs.
+ */
+export class WebSocketConnection extends EventEmitter {
+	private buffer = Buffer.alloc(0);
+	private fragments: Buffer[] = [];
+	private fragmentsSize = 0;
+	private closed = false;
+
+	constructor(private socket: Duplex) {
+		super();
+		socket.on('data', data => this.onData(data));
+		socket.on('close', () => this.onClose());
+		socket.on('error', () => socket.destroy());
+	}
+
+	/** Sends a text message. Does nothing once the connection is closed. */
+	send(message: string): void {
+		this.write(Opcode.Text, Buffer.from(message));
+	}
+
+	/** Sends a ping, to keep the connection alive. */
+	ping(): void {
+		this.write(Opcode.Ping, Buffer.alloc(0));
+	}
+
+	/** Starts the closing handshake. */
+	close(code = 1000, reason = ''): void {
+		if (this.closed) return;
+
+		const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+		payload.writeUInt16BE(code, 0);
+		payload.write(reason, 2);
+		this.write(Opcode.Close, payload);
+		this.socket.end();
+		this.onClose();
+	}
+
+	private write(opcode: Opcode, payload: Buffer): void {
+		if (this.closed || this.socket.destroyed) return;
+
+		// Server-to-client frames are never masked.
+		let header: Buffer;
+		if (payload.length < 126) {
+			header = Buffer.from([0x80 | opcode, payload.length]);
+		} else if (payload.length <= 0xFFFF) {
+			header = Buffer.alloc(4);
+			header[0] = 0x80 | opcode;
+			header[1] = 126;
+			header.writeUInt16BE(payload.length, 2);
+		} else {
+			header = Buffer.alloc(10);
+			header[0] = 0x80 | opcode;
+			header[1] = 127;
+			header.writeBigUInt64BE(BigInt(payload.length), 2);
+		}
+		this.socket.write(Buffer.concat([header, payload]));
+	}
+
+	/** Buffers incoming data and handles every complete frame in it. */
+	private onData(data: Buffer): void {
+		this.buffer = Buffer.concat([this.buffer, data]);
+
+		while (!this.closed) {
+			const frame = parseFrame(this.buffer);
+			if (!frame) break;
+			if (frame === OVERSIZED) {
+				this.close(1009, 'Message too big');
+				return;
+			}
+			this.buffer = this.buffer.subarray(frame.length);
+
+			if (!frame.masked) {
+				// Clients must mask their frames.
+				this.close(1002, 'Protocol error');
+				return;
+			}
+			this.onFrame(frame.fin, frame.opcode, frame.payload);
+		}
+	}
+
+	private onFrame(fin: boolean, opcode: Opcode, payload: Buffer): void {
+		switch (opcode) {
+			case Opcode.Text:
+			case Opcode.Continuation:
+				this.fragmentsSize += payload.length;
+				if (this.fragmentsSize > MAX_MESSAGE_SIZE) {
+					this.close(1009, 'Message too big');
+					return;
+				}
+				this.fragments.push(payload);
+				if (fin) {
+					const message = Buffer.concat(this.fragments).toString();
+					this.fragments = [];
+					this.fragmentsSize = 0;
+					this.emit('message', message);
+				}
+				break;
+			case Opcode.Ping:
+				this.write(Opcode.Pong, payload);
+				break;
+			case Opcode.Pong:
+				break;
+			case Opcode.Close:
+				this.close();
+				break;
+			default:
+				this.close(1003, 'Only text messages are supported');
+		}
+	}
+
+	private onClose(): void {
+		if (this.closed) return;
+		this.closed = true;
+		this.emit('close');
+	}
+}
+
+/** Stands in for frames that claim to be bigger than we accept. */
+const OVERSIZED = Symbol('oversized');
+
+interface Frame {
+	fin: boolean;
+	opcode: Opcode;
+	masked: boolean;
+	payload: Buffer;
+	/** Total length of the frame, including the header. */
+	length: number;
+}
+
+/**
+ * Reads a frame from the start of the buffer, or `null` if it's incomplete.
+ * Oversized frames are rejected from their header alone, so we never buffer
+ * (or allocate) whatever length a client claims.
+ */
+function parseFrame(buffer: Buffer): Frame | typeof OVERSIZED | null {
+	if (buffer.length < 2) return null;
+
+	const fin = (buffer[0] & 0x80) !== 0;
+	const opcode = buffer[0] & 0x0F;
+	const masked = (buffer[1] & 0x80) !== 0;
+	let length = buffer[1] & 0x7F;
+	let offset = 2;
+
+	if (length === 126) {
+		if (buffer.length < 4) return null;
+		length = buffer.readUInt16BE(2);
+		offset = 4;
+	} else if (length === 127) {
+		if (buffer.length < 10) return null;
+		length = Number(buffer.readBigUInt64BE(2));
+		offset = 10;
+	}
+
+	if (length > MAX_MESSAGE_SIZE) return OVERSIZED;
+
+	const maskOffset = offset;
+	if (masked) offset += 4;
+	if (buffer.length < offset + length) return null;
+
+	const payload = Buffer.from(buffer.subarray(offset, offset + length));
+	if (masked) {
+		for (let i = 0; i < payload.length; i++) {
+			payload[i] ^= buffer[maskOffset + (i % 4)];
+		}
+	}
+
+	return { fin, opcode, masked, payload, length: offset + length };
+}
+
+/**
+ * Completes the WebSocket handshake for an HTTP upgrade request. Returns
+ * `null` (after rejecting the request) if it isn't a valid handshake.
+ */
+export function acceptWebSocket(req: HTTP.IncomingMessage, socket: Duplex): WebSocketConnection | null {
+	const key = req.headers['sec-websocket-key'];
+	if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+		socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+		return null;
+	}
+
+	const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+	socket.write([
+		'HTTP/1.1 101 Switching Protocols',
+		'Upgrade: websocket',
+		'Connection: Upgrade',
+		`Sec-WebSocket-Accept: ${accept}`,
+		'', '',
+	].join('\r\n'));
+
+	return new WebSocketConnection(socket);
+}
+
+/** A connected client and what it's subscribed to. */
+interface Client {
+	connection: WebSocketConnection;
+	servers: Set<string>;
+	games: Set<string>;
+}
+
+/**
+ * Pushes live server updates to WebSocket clients.
+ *
+ * Clients send `{"type": "subscribe", "server": "1.2.3.4:2302"}` or
+ * `{"type": "subscribe", "game": "halom"}` (and `unsubscribe` likewise).
+ * Each subscription immediately gets a full snapshot, followed by a diff
+ * whenever a background poll finds that something changed. See
+ * {@link LiveMessage} for everything that can be pushed.
+ */
+export class LiveUpdateServer {
+	private clients = new Set<Client>();
+	/** The state of every server as of the last poll, for diffing. */
+	private previous = new Map<string, CachedServer>();
+	/** Monitor events from the current poll, by server. */
+	private pendingEvents = new Map<string, MonitorEvent[]>();
+	private pinger: NodeJS.Timeout;
+
+	constructor(
+		private http: HTTP.Server,
+		private source: LiveUpdateSource,
+		private path = LIVE_UPDATES_PATH,
+	) {
+		this.http.on('upgrade', this.onUpgrade);
+		this.source.monitor.on('change', this.onChange);
+		this.source.monitor.on('poll', this.onPoll);
+		this.pinger = setInterval(() => {
+			this.clients.forEach(client => client.connection.ping());
+		}, PING_INTERVAL_MS);
+	}
+
+	/** How many clients are connected. */
+	get size(): number {
+		return this.clients.size;
+	}
+
+	/** Disconnects every client and stops pushing updates. */
+	close(): void {
+		clearInterval(this.pinger);
+		this.http.removeListener('upgrade', this.onUpgrade);
+		this.source.monitor.removeListener('change', this.onChange);
+		this.source.monitor.removeListener('poll', this.onPoll);
+		this.clients.forEach(client => client.connection.close(1001, 'Server shutting down'));
+		this.clients.clear();
+	}
+
+	private onUpgrade = (req: HTTP.IncomingMessage, socket: Duplex): void => {
+		const url = new URL(req.url ?? '/', 'http://localhost');
+		if (url.pathname !== this.path) {
+			socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+			return;
+		}
+
+		const connection = acceptWebSocket(req, socket);
+		if (!connection) return;
+
+		const client: Client = { connection, servers: new Set(), games: new Set() };
+		this.clients.add(client);
+		connection.on('message', (message: string) => this.onMessage(client, message));
+		connection.on('close', () => this.clients.delete(client));
+	};
+
+	private onMessage(client: Client, message: string): void {
+		let request: LiveRequest;
+		try {
+			request = JSON.parse(message);
+		} catch {
+			this.send(client, { type: 'error', error: 'Messages must be JSON' });
+			return;
+		}
+
+		const subscribe = request?.type === 'subscribe';
+		if (!subscribe && request?.type !== 'unsubscribe') {
+			this.send(client, { type: 'error', error: 'Unknown message type' });
+		} else if (typeof request.server === 'string') {
+			if (!subscribe) {
+				client.servers.delete(request.server);
+				return;
+			}
+			client.servers.add(request.server);
+			this.send(client, {
+				type: 'snapshot',
+				updated: this.source.updated,
+				server: request.server,
+				result: this.source.servers().find(server => addressKey(server) === request.server) ?? null,
+			});
+		} else if (typeof request.game === 'string') {
+			if (!Object.keys(GameKeys).includes(request.game)) {
+				this.send(client, { type: 'error', error: `Unknown game: ${request.game}` });
+				return;
+			}
+			if (!subscribe) {
+				client.games.delete(request.game);
+				return;
+			}
+			client.games.add(request.game);
+			this.send(client, {
+				type: 'snapshot',
+				updated: this.source.updated,
+				game: request.game,
+				servers: this.source.servers().filter(server => server.game === request.game),
+			});
+		} else {
+			this.send(client, { type: 'error', error: 'Expected a "server" or "game" to subscribe to' });
+		}
+	}
+
+	/** Holds on to each event until the poll finishes. */
+	private onChange = (event: MonitorEvent): void => {
+		const key = addressKey(event.server);
+		if (!this.pendingEvents.has(key)) {
+			this.pendingEvents.set(key, []);
+		}
+		this.pendingEvents.get(key)!.push(event);
+	};
+
+	/** Works out what changed in this poll and tells whoever cares. */
+	private onPoll = (): void => {
+		const updated = this.source.updated ?? new Date().toISOString();
+		const current = new Map(this.source.servers().map(server => [addressKey(server), server]));
+
+		current.forEach((server, key) => {
+			const before = this.previous.get(key);
+			if (!before) {
+				this.announce(server, updated);
+				return;
+			}
+
+			const patch = mergePatch(pushedState(before), pushedState(server));
+			if (patch !== undefined) {
+				const events = this.pendingEvents.get(key) ?? [];
+				this.broadcast(server, { type: 'diff', updated, server: key, patch: patch as object, events });
+			}
+		});
+
+		this.previous.forEach((server, key) => {
+			if (!current.has(key) && server.game) {
+				this.broadcast(server, { type: 'removed', updated, game: server.game, server: key });
+			}
+		});
+
+		this.previous = current;
+		this.pendingEvents.clear();
+	};
+
+	/**
+	 * Sends the full state of a server we haven't seen before. Game subscribers
+	 * get it as an addition to the list. Server subscribers may have
+	 * subscribed before the first poll, and only had an empty snapshot so far,
+	 * so they get a fresh snapshot.
+	 */
+	private announce(server: CachedServer, updated: string): void {
+		const key = addressKey(server);
+		this.clients.forEach(client => {
+			if (server.game && client.games.has(server.game)) {
+				this.send(client, { type: 'added', updated, game: server.game, server: key, result: server });
+			} else if (client.servers.has(key)) {
+				this.send(client, { type: 'snapshot', updated, server: key, result: server });
+			}
+		});
+	}
+
+	/** Sends a message to every client subscribed to the server or its game. */
+	private broadcast(server: CachedServer, message: LiveMessage): void {
+		const key = addressKey(server);
+		this.clients.forEach(client => {
+			if (client.servers.has(key) || (server.game && client.games.has(server.game))) {
+				this.send(client, message);
+			}
+		});
+	}
+
+	private send(client: Client, message: LiveMessage): void {
+		client.connection.send(JSON.stringify(message));
+	}
+}
+
+/**
+ * The parts of a server's state worth pushing. Ping and `lastSeen` change on
+ * nearly every poll, so they'd drown out the interesting changes. The raw data
+ * of a failed query is left out for the same reason (it includes `queryid`).
+ */
+function pushedState(server: CachedServer): object {
+	if (!isResponse(server)) {
+		return { status: server.status, error: server.error, data: null };
+	}
+
+	return {
+		status: server.status,
+		data: Object.fromEntries(Object.entries(server.data)
+			.filter(([key]) => !VOLATILE_INFO_KEYS.includes(key))),
+	};
+}
+
+/**
+ * Makes a JSON Merge Patch (RFC 7386) that turns `before` into `after`, or
+ * `undefined` if they're the same. Arrays are replaced wholesale.
+ */
+export function mergePatch(before: unknown, after: unknown): unknown {
+	if (!isPlainObject(before) || !isPlainObject(after)) {
+		return JSON.stringify(before) === JSON.stringify(after) ? undefined : after;
+	}
+
+	const patch: Record<string, unknown> = {};
+	Object.keys(after).forEach(key => {
+		const sub = key in before ? mergePatch(before[key], after[key]) : after[key];
+		if (sub !== undefined) patch[key] = sub;
+	});
+	Object.keys(before)
+		.filter(key => !(key in after))
+		.forEach(key => patch[key] = null);
+
+	return Object.keys(patch).length > 0 ? patch : undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,120 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import * as HTTP from 'http';
+import { after, before, describe, it } from 'node:test';
+
+import { ApiServer } from '../src/api';
+import { MockGameServer } from '../src/mock';
+import { ServerAddress } from '../src/network';
+import { ServerInfo } from '../src/response';
+
+const INFO: ServerInfo = {
+	hostname: 'Mock Server',
+	gamever: '01.00.10.0621',
+	mapname: 'bloodgulch',
+	numplayers: 2,
+	maxplayers: 16,
+	players: [
+		{ playername: 'Mimickal', score: 12 },
+		{ playername: 'Chaosvex', score: 8 },
+	],
+};
+
+describe('ApiServer', () => {
+	const mock = new MockGameServer({ info: INFO, delay: 100 });
+	let server: ServerAddress;
+	let api: ApiServer;
+	let base: string;
+
+	before(async () => {
+		server = await mock.listen();
+		api = new ApiServer([server], { endDelay: 50, timeout: 500 });
+		const address = await api.listen(0, '127.0.0.1');
+		base = `http://${address.address}:${address.port}`;
+	});
+	after(async () => {
+		await api.close();
+		await mock.close();
+	});
+
+	const request = async (method: string, path: string): Promise<HTTP.IncomingMessage & { body: any }> => (
+		new Promise((resolve, reject) => {
+			HTTP.request(base + path, { method }, res => {
+				const chunks: Buffer[] = [];
+				res.on('data', chunk => chunks.push(chunk));
+				res.on('end', () => resolve(Object.assign(res, {
+					body: JSON.parse(Buffer.concat(chunks).toString()),
+				})));
+			}).on('error', reject).end();
+		})
+	);
+	const get = async (path: string, method = 'GET'): Promise<[number, any]> => {
+		const res = await request(method, path);
+		return [res.statusCode!, res.body];
+	};
+
+	it('asks clients to come back until the first poll finishes', async () => {
+		const res = await request('GET', '/servers');
+		assert.equal(res.statusCode, 503);
+		assert.equal(res.headers['retry-after'], '1');
+
+		await new Promise(resolve => api.monitor.once('poll', resolve));
+	});
+
+	it('lists every server', async () => {
+		const [status, body] = await get('/servers');
+		assert.equal(status, 200);
+		assert.equal(typeof body.updated, 'string');
+		assert.equal(body.servers.length, 1);
+		assert.equal(body.servers[0].status, 'responded');
+		assert.equal(body.servers[0].data.hostname, INFO.hostname);
+		assert.equal(body.servers[0].lastSeen, body.updated);
+	});
+
+	it('filters servers', async () => {
+		assert.equal((await get('/servers?filter=numplayers>1'))[1].servers.length, 1);
+		assert.equal((await get('/servers?filter=numplayers>5'))[1].servers.length, 0);
+
+		const [status, body] = await get(`/servers?filter=${encodeURIComponent('numplayers>')}`);
+		assert.equal(status, 400);
+		assert.match(body.error, /Expected/);
+	});
+
+	it('looks up a single server', async () => {
+		const [status, body] = await get(`/servers/${server.address}/${server.port}`);
+		assert.equal(status, 200);
+		assert.equal(body.server.port, server.port);
+
+		assert.equal((await get(`/servers/${server.address}/1`))[0], 404);
+	});
+
+	it('rejects malformed path escapes', async () => {
+		const [status, body] = await get('/servers/%E0%A4%A/2302');
+		assert.equal(status, 400);
+		assert.match(body.error, /Malformed path parameter/);
+	});
+
+	it('only serves master lists it polls', async () => {
+		assert.equal((await get('/masters/halom'))[0], 404);
+		assert.equal((await get('/masters/nonsense'))[0], 404);
+	});
+
+	it('searches players by name', async () => {
+		const [status, body] = await get('/players?name=MIMI');
+		assert.equal(status, 200);
+		assert.deepEqual(body.players.map((player: { name: string }) => player.name), ['Mimickal']);
+		assert.equal(body.players[0].server.hostname, INFO.hostname);
+	});
+
+	it('rejects unknown endpoints and methods', async () => {
+		assert.equal((await get('/nonsense'))[0], 404);
+		assert.equal((await get('/servers', 'POST'))[0], 405);
+	});
+});
@@ -0,0 +1,136 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { promises as fs } from 'fs';
+import { after, before, describe, it } from 'node:test';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+	Snapshot,
+	diffSnapshots,
+	listSnapshots,
+	loadSnapshot,
+	saveSnapshot,
+	serverHistory,
+} from '../src/archive';
+import { QueryStatus, ServerResult } from '../src/handler';
+
+const response = (port: number, data: string, queryId = 1): ServerResult => ({
+	address: '10.0.0.1', port, game: null,
+	status: QueryStatus.Responded, attempts: 1, ping: 10,
+	data: `\\hostname\\Mock\\gamever\\1.10${data}\\final\\\\queryid\\${queryId}.1`,
+});
+const timedOut = (port: number): ServerResult => ({
+	address: '10.0.0.1', port, game: null,
+	status: QueryStatus.TimedOut, attempts: 1, data: null, error: 'No response',
+});
+
+const BEFORE: Snapshot = {
+	time: '2023-01-01T00:00:00.000Z',
+	results: [
+		response(1, '\\mapname\\bloodgulch\\maxplayers\\16\\playername_0\\Mimickal'),
+		response(2, '\\mapname\\sidewinder'),
+		response(3, '\\mapname\\sidewinder'),
+	],
+};
+const AFTER: Snapshot = {
+	time: '2023-01-01T00:05:00.000Z',
+	results: [
+		response(1, '\\mapname\\icefields\\maxplayers\\12\\playername_0\\Mimickal'),
+		timedOut(2),
+		response(4, '\\mapname\\sidewinder'),
+		// Unchanged, apart from the query ID.
+		response(3, '\\mapname\\sidewinder', 2),
+	],
+};
+
+describe('snapshot archive', () => {
+	let dir: string;
+
+	before(async () => {
+		dir = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'halo-query-')), 'archive');
+	});
+	after(async () => {
+		await fs.rm(path.dirname(dir), { recursive: true });
+	});
+
+	it('saves snapshots named after the time, creating the directory', async () => {
+		const file = await saveSnapshot(dir, AFTER.results, new Date(AFTER.time));
+		assert.equal(path.basename(file), '2023-01-01T00-05-00.000Z.json');
+		assert.deepEqual(await loadSnapshot(file), AFTER);
+	});
+
+	it('lists snapshots oldest first, ignoring other files', async () => {
+		await saveSnapshot(dir, BEFORE.results, new Date(BEFORE.time));
+		await fs.writeFile(path.join(dir, 'notes.txt'), 'hello');
+		assert.deepEqual((await listSnapshots(dir)).map(file => path.basename(file)), [
+			'2023-01-01T00-00-00.000Z.json',
+			'2023-01-01T00-05-00.000Z.json',
+		]);
+	});
+
+	it('never overwrites a snapshot from the same time', async () => {
+		const time = new Date(AFTER.time);
+		const first = await saveSnapshot(dir, [], time);
+		const second = await saveSnapshot(dir, [], time);
+		assert.equal(path.basename(first), '2023-01-01T00-05-00.000Z-1.json');
+		assert.equal(path.basename(second), '2023-01-01T00-05-00.000Z-2.json');
+		assert.deepEqual((await loadSnapshot(path.join(dir, '2023-01-01T00-05-00.000Z.json'))).results, AFTER.results);
+
+		assert.deepEqual((await listSnapshots(dir)).map(file => path.basename(file)), [
+			'2023-01-01T00-00-00.000Z.json',
+			'2023-01-01T00-05-00.000Z.json',
+			'2023-01-01T00-05-00.000Z-1.json',
+			'2023-01-01T00-05-00.000Z-2.json',
+		]);
+		await Promise.all([first, second].map(file => fs.rm(file)));
+	});
+
+	it('reads back a server history', async () => {
+		const history = await serverHistory(dir, { address: '10.0.0.1', port: 2 });
+		assert.deepEqual(history.map(entry => [entry.time, entry.result.status]), [
+			[BEFORE.time, QueryStatus.Responded],
+			[AFTER.time, QueryStatus.TimedOut],
+		]);
+		const { result } = history[0];
+		assert.equal(result.status, QueryStatus.Responded);
+		assert.equal(result.data.mapname, 'sidewinder');
+	});
+
+	it("refuses files that aren't snapshots", async () => {
+		const file = path.join(dir, 'bad.json');
+		await fs.writeFile(file, '{"hello": "world"}');
+		await assert.rejects(loadSnapshot(file), /Not a snapshot/);
+		await fs.writeFile(file, 'nonsense');
+		await assert.rejects(loadSnapshot(file), /Failed to read snapshot/);
+		await fs.rm(file);
+	});
+});
+
+describe('diffSnapshots', () => {
+	const diff = diffSnapshots(BEFORE, AFTER);
+
+	it('finds added and removed servers', () => {
+		assert.deepEqual(diff.added, [{ address: '10.0.0.1', port: 4, game: null }]);
+		assert.deepEqual(diff.removed, []);
+		assert.deepEqual(diffSnapshots(AFTER, BEFORE).removed, diff.added);
+	});
+
+	it('reports events and setting changes, leaving out unchanged servers', () => {
+		assert.deepEqual(diff.changed.map(change => [
+			change.server.port,
+			change.events.map(event => event.type),
+			change.settings,
+		]), [
+			[1, ['map_changed'], [{ key: 'maxplayers', from: 16, to: 12 }]],
+			[2, ['server_offline'], []],
+		]);
+	});
+});
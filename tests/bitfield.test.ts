@@ -0,0 +1,86 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+
+import { Struct } from '../src/bitfield';
+
+type Pair = {
+	low: number;
+	high: number;
+};
+
+describe('Struct', () => {
+	const struct = new Struct<Pair>([
+		{ name: 'low', size: 3 },
+		{ name: 'high', size: 5 },
+	], 8);
+
+	it('decodes fields right to left', () => {
+		assert.deepEqual(struct.decode(0b10101_011), { low: 0b011, high: 0b10101 });
+	});
+
+	it('encodes what it decodes', () => {
+		assert.equal(struct.encode(struct.decode(0b10101_011)), 0b10101_011);
+	});
+
+	it('encodes the current data by default', () => {
+		const fresh = new Struct<Pair>([
+			{ name: 'low', size: 3 },
+			{ name: 'high', size: 5 },
+		]);
+		fresh.data.low = 1;
+		fresh.data.high = 2;
+		assert.equal(fresh.encode(), 0b10_001);
+	});
+
+	it('ignores bits past its size when decoding', () => {
+		assert.deepEqual(struct.decode(0x1ff), { low: 7, high: 31 });
+	});
+
+	it('rejects out of range and missing values', () => {
+		assert.throws(() => struct.encode({ low: 8, high: 0 }), /low/);
+		assert.throws(() => struct.encode({ low: -1, high: 0 }), /low/);
+		assert.throws(() => struct.encode({ low: 1.5, high: 0 }), /low/);
+		assert.throws(() => struct.encode({ low: 0 } as Pair), /high/);
+	});
+
+	it('rejects fields that are invalid or overflow the struct', () => {
+		assert.throws(() => new Struct<Pair>([{ name: 'low', size: 0 }]), /Invalid size/);
+		assert.throws(() => new Struct<Pair>([
+			{ name: 'low', size: 2 },
+			{ name: 'low', size: 2 },
+		]), /Duplicate field/);
+		assert.throws(() => new Struct<Pair>([
+			{ name: 'low', size: 20 },
+			{ name: 'high', size: 13 },
+		]), /33 bits/);
+	});
+
+	it('supports structs wider than 32 bits', () => {
+		const wide = new Struct<Pair>([
+			{ name: 'low', size: 30 },
+			{ name: 'high', size: 20 },
+		], 50);
+		const value = 5 * 2 ** 30 + 7;
+		assert.deepEqual(wide.decode(value), { low: 7, high: 5 });
+		assert.equal(wide.encode({ low: 7, high: 5 }), value);
+	});
+
+	it('needs bigints past 53 bits', () => {
+		const wider = new Struct<Pair>([
+			{ name: 'low', size: 32 },
+			{ name: 'high', size: 32 },
+		], 64);
+		const fields = wider.decode(0x1234567890abcdefn);
+		assert.deepEqual(fields, { low: 0x90abcdef, high: 0x12345678 });
+		assert.equal(wider.encodeBigInt(fields), 0x1234567890abcdefn);
+		assert.throws(() => wider.encode(fields), /encodeBigInt/);
+	});
+});
@@ -0,0 +1,69 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+
+import { FilterSyntaxError, compileFilter } from '../src/filter';
+import { ServerInfo } from '../src/response';
+
+const INFO: ServerInfo = {
+	hostname: 'Pro Server',
+	mapname: 'bloodgulch',
+	numplayers: 4,
+	maxplayers: 16,
+	password: 0,
+	players: [{ playername: 'a' }, { playername: 'b' }],
+	game_flags_labels: { game_type: 'CTF' },
+};
+
+const matches = (expression: string): boolean => compileFilter(expression)(INFO);
+
+describe('compileFilter', () => {
+	it('compares numbers and strings', () => {
+		assert.equal(matches('numplayers>0'), true);
+		assert.equal(matches('numplayers>=5'), false);
+		assert.equal(matches('mapname==BloodGulch'), true);
+		assert.equal(matches('mapname!=bloodgulch'), false);
+	});
+
+	it('matches regexes', () => {
+		assert.equal(matches('hostname=~^pro'), true);
+		assert.equal(matches('hostname=~^noob'), false);
+	});
+
+	it('tests fields on their own', () => {
+		assert.equal(matches('!password'), true);
+		assert.equal(matches('numplayers'), true);
+		assert.equal(matches('missing'), false);
+	});
+
+	it('combines with precedence and parentheses', () => {
+		assert.equal(matches('numplayers>10 || mapname==bloodgulch && !password'), true);
+		assert.equal(matches('(numplayers>10 || mapname==bloodgulch) && password'), false);
+	});
+
+	it('reads nested fields and compares fields to each other', () => {
+		assert.equal(matches('game_flags_labels.game_type==CTF'), true);
+		assert.equal(matches('players.length==2'), true);
+		assert.equal(matches('numplayers<$maxplayers'), true);
+	});
+
+	it('accepts quoted values', () => {
+		assert.equal(matches("hostname=='pro server'"), true);
+		assert.equal(matches('hostname=="pro"'), false);
+	});
+
+	it('rejects bad expressions with a position', () => {
+		assert.throws(() => compileFilter('numplayers>'), FilterSyntaxError);
+		assert.throws(() => compileFilter('(numplayers>0'), FilterSyntaxError);
+		assert.throws(() => compileFilter('a==b ~'), (err: unknown) => (
+			err instanceof FilterSyntaxError && err.position === 5
+		));
+	});
+});
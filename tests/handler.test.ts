@@ -0,0 +1,174 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import {
+	QueryStatus,
+	Server,
+	ServerResult,
+	parseServerResult,
+	queryServerInfo,
+	queryServerInfoStream,
+} from '../src/handler';
+import { MockGameServer } from '../src/mock';
+import { ServerInfo } from '../src/response';
+
+const info = (hostname: string): ServerInfo => ({
+	hostname,
+	gamever: '01.00.10.0621',
+	mapname: 'bloodgulch',
+	numplayers: 0,
+});
+
+describe('queryServerInfoStream', () => {
+	const fast = new MockGameServer({ info: info('Fast'), packets: 2 });
+	const slow = new MockGameServer({ info: info('Slow'), delay: 300 });
+	const servers: Server[] = [];
+
+	before(async () => {
+		servers.push({ ...await slow.listen(), game: null });
+		servers.push({ ...await fast.listen(), game: 'halom' });
+	});
+	after(async () => {
+		await Promise.all([fast.close(), slow.close()]);
+	});
+
+	const collect = async (stream: AsyncGenerator<ServerResult>): Promise<ServerResult[]> => {
+		const results: ServerResult[] = [];
+		for await (const result of stream) {
+			results.push(result);
+		}
+		return results;
+	};
+
+	it('yields each server as soon as its response is complete', async () => {
+		const start = Date.now();
+		const results = await collect(queryServerInfoStream(servers, { endDelay: 1000 }));
+		assert.deepEqual(results.map(result => result.data?.toString().match(/hostname\\(\w+)/)?.[1]), [
+			'Fast', 'Slow',
+		]);
+		assert.equal(results[0].game, 'halom');
+		// The final marker ends a response without waiting out the end delay.
+		assert.ok(Date.now() - start < 1000);
+	});
+
+	it('ends at the deadline, with the rest timed out', async () => {
+		const start = Date.now();
+		const results = await collect(queryServerInfoStream(servers, { deadline: 150 }));
+		assert.deepEqual(results.map(result => [result.game, result.status]), [
+			['halom', QueryStatus.Responded],
+			[null, QueryStatus.TimedOut],
+		]);
+		assert.ok(Date.now() - start < 300);
+	});
+
+	it('ends at the deadline while waiting to retry or to send', async () => {
+		const dead: Server = { address: '127.0.0.1', port: 1, game: null };
+		const start = Date.now();
+		const results = await collect(queryServerInfoStream([dead, dead, dead], {
+			timeout: 50,
+			retry: { attempts: 3, backoff: 5000 },
+			packetsPerSecond: 0.5,
+			deadline: 200,
+		}));
+		assert.deepEqual(results.map(result => result.status), [
+			QueryStatus.TimedOut, QueryStatus.TimedOut, QueryStatus.TimedOut,
+		]);
+		assert.ok(Date.now() - start < 1000);
+	});
+
+	it('ends right away with no servers', async () => {
+		assert.deepEqual(await collect(queryServerInfoStream([])), []);
+	});
+});
+
+describe('queryServerInfo', () => {
+	const server = new MockGameServer({ info: info('Mock') });
+	const servers: Server[] = [];
+
+	before(async () => {
+		servers.push({ ...await server.listen(), game: null });
+		// Nothing listens here, since the mock has the port.
+		servers.push({ address: '127.0.0.1', port: 1, game: 'halom' });
+	});
+	after(async () => {
+		await server.close();
+	});
+
+	it('reports every server, in order, with a status', async () => {
+		const results = await queryServerInfo([servers[1], servers[0]], { endDelay: 200 });
+		assert.deepEqual(results.map(result => result.status), [
+			QueryStatus.TimedOut,
+			QueryStatus.Responded,
+		]);
+		assert.equal(results[0].game, 'halom');
+		assert.equal(results[0].data, null);
+		assert.equal(results[1].attempts, 1);
+	});
+
+	it('resolves hostnames, and keeps them in the result', async () => {
+		const byName = { ...servers[0], address: 'localhost' };
+		const [result] = await queryServerInfo([byName], { timeout: 500, endDelay: 100 });
+		assert.equal(result.status, QueryStatus.Responded);
+		assert.equal(result.address, 'localhost');
+	});
+
+	it('retries servers that never answered', async () => {
+		server.opts.dropFirst = server.queries.length + 1;
+		try {
+			const [result] = await queryServerInfo([servers[0]], {
+				endDelay: 100,
+				retry: { attempts: 2, backoff: 10 },
+			});
+			assert.equal(result.status, QueryStatus.Responded);
+			assert.equal(result.attempts, 2);
+		} finally {
+			server.opts.dropFirst = 0;
+		}
+	});
+
+	it('gives up once out of attempts', async () => {
+		const [result] = await queryServerInfo([servers[1]], {
+			endDelay: 50,
+			retry: { attempts: 3, backoff: 10 },
+		});
+		assert.equal(result.status, QueryStatus.TimedOut);
+		assert.equal(result.attempts, 3);
+	});
+
+	it('measures latency over several samples', async () => {
+		const [result] = await queryServerInfo([servers[0]], { endDelay: 100, samples: 3 });
+		assert.equal(result.status, QueryStatus.Responded);
+		assert.equal(result.attempts, 3);
+		assert.equal(typeof result.ping, 'number');
+		assert.equal(result.latency?.samples.length, 3);
+		assert.ok(result.latency.min <= result.latency.avg && result.latency.avg <= result.latency.max);
+	});
+});
+
+describe('parseServerResult', () => {
+	const server: Server = { address: '127.0.0.1', port: 2302, game: null };
+
+	it('parses responses', () => {
+		const result = parseServerResult({
+			...server, status: QueryStatus.Responded, attempts: 1, ping: 5, data: '\\hostname\\A\\gamever\\1',
+		});
+		assert.equal(result.status, QueryStatus.Responded);
+		assert.deepEqual(result.data, { hostname: 'A', gamever: 1 });
+	});
+
+	it('marks responses without a gamever as unparseable', () => {
+		const result = parseServerResult({
+			...server, status: QueryStatus.Responded, attempts: 1, ping: 5, data: '\\nonsense\\',
+		});
+		assert.equal(result.status, QueryStatus.Unparseable);
+		assert.equal(result.data, '\\nonsense\\');
+	});
+});
@@ -0,0 +1,79 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+
+import { ParsedServerResult, QueryStatus } from '../src/handler';
+import { QueryMetrics, renderMetrics } from '../src/metrics';
+
+const RESULTS: ParsedServerResult[] = [
+	{
+		address: '1.2.3.4',
+		port: 2302,
+		game: 'halom',
+		status: QueryStatus.Responded,
+		attempts: 1,
+		ping: 50,
+		data: {
+			hostname: 'Say "hi"',
+			mapname: 'bloodgulch',
+			gametype: 'CTF',
+			numplayers: 3,
+			maxplayers: 16,
+		},
+	},
+	{
+		address: '5.6.7.8',
+		port: 2303,
+		game: null,
+		status: QueryStatus.TimedOut,
+		attempts: 1,
+		data: null,
+		error: 'No response',
+	},
+];
+
+const samples = (text: string, name: string): string[] => text
+	.split('\n')
+	.filter(line => line.startsWith(`${name}{`) || line.startsWith(`${name} `));
+
+describe('renderMetrics', () => {
+	const text = renderMetrics(RESULTS);
+
+	it('labels server gauges by address and port only', () => {
+		assert.deepEqual(samples(text, 'halo_server_up'), [
+			'halo_server_up{address="1.2.3.4",port="2302"} 1',
+			'halo_server_up{address="5.6.7.8",port="2303"} 0',
+		]);
+		assert.deepEqual(samples(text, 'halo_server_players'), [
+			'halo_server_players{address="1.2.3.4",port="2302"} 3',
+		]);
+		assert.deepEqual(samples(text, 'halo_server_ping_seconds'), [
+			'halo_server_ping_seconds{address="1.2.3.4",port="2302"} 0.05',
+		]);
+	});
+
+	it('puts what the server is running on a separate info gauge', () => {
+		assert.deepEqual(samples(text, 'halo_server_info'), [
+			'halo_server_info{address="1.2.3.4",port="2302",game="halom",' +
+				'hostname="Say \\"hi\\"",map="bloodgulch",gametype="CTF"} 1',
+		]);
+	});
+
+	it('appends the query metrics', () => {
+		const metrics = new QueryMetrics();
+		metrics.recordTimeout();
+		metrics.recordMasterFetch('halom', 1500, 20);
+		const rendered = renderMetrics(RESULTS, metrics);
+		assert.ok(rendered.startsWith(text));
+		assert.deepEqual(samples(rendered, 'halo_query_master_servers'), [
+			'halo_query_master_servers{game="halom"} 20',
+		]);
+	});
+});
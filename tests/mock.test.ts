@@ -0,0 +1,83 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import { MockGameServer } from '../src/mock';
+import { ServerAddress, UDPClient } from '../src/network';
+import { ServerInfo } from '../src/response';
+
+const INFO: ServerInfo = {
+	hostname: 'Mock Server',
+	gamever: '01.00.10.0621',
+	mapname: 'bloodgulch',
+	numplayers: 0,
+};
+
+describe('MockGameServer', () => {
+	const server = new MockGameServer({ info: INFO });
+	let address: ServerAddress;
+
+	before(async () => {
+		address = await server.listen();
+	});
+	after(async () => {
+		await server.close();
+	});
+
+	it('splits replies between pairs, and marks every packet', () => {
+		server.opts.packets = 2;
+		try {
+			assert.deepEqual(server.packetize(7), [
+				'\\hostname\\Mock Server\\gamever\\01.00.10.0621\\queryid\\7.1',
+				'\\mapname\\bloodgulch\\numplayers\\0\\final\\\\queryid\\7.2',
+			]);
+		} finally {
+			server.opts.packets = 1;
+		}
+	});
+
+	it('never sends more packets than pairs', () => {
+		server.opts.packets = 10;
+		try {
+			assert.equal(server.packetize(1).length, 4);
+		} finally {
+			server.opts.packets = 1;
+		}
+	});
+
+	it('answers info queries, and ignores the first few if told to', async () => {
+		server.opts.dropFirst = server.queries.length + 1;
+		const client = new UDPClient();
+		try {
+			await client.write(address.address, address.port, '\\');
+			assert.equal(await client.readAll(100), null);
+
+			await client.write(address.address, address.port, '\\');
+			const responses = await client.readAll(100);
+			assert.equal(responses?.length, 1);
+			assert.match(responses![0].data.toString(), /^\\hostname\\Mock Server\\.*\\final\\\\queryid\\1\.1$/);
+		} finally {
+			client.close();
+			server.opts.dropFirst = 0;
+		}
+	});
+
+	it('ignores anything but an info query', async () => {
+		const before = server.queries.length;
+		const client = new UDPClient();
+		try {
+			await client.write(address.address, address.port, '\\status\\');
+			assert.equal(await client.readAll(100), null);
+			assert.equal(server.queries.length, before);
+		} finally {
+			client.close();
+		}
+	});
+});
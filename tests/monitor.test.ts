@@ -0,0 +1,156 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import { Server } from '../src/handler';
+import { MockGameServer } from '../src/mock';
+import { MonitorEvent, ServerMonitor, diffServerInfo } from '../src/monitor';
+import { ServerAddress } from '../src/network';
+import { ServerInfo } from '../src/response';
+
+const INFO: ServerInfo = {
+	hostname: 'Mock Server',
+	gamever: '01.00.10.0621',
+	mapname: 'bloodgulch',
+	gametype: 'CTF',
+	numplayers: 2,
+	players: [
+		{ playername: 'Mimickal', score: 3, team: 0 },
+		{ playername: 'Chaosvex', score: 1, team: 1 },
+	],
+	teams: [
+		{ team: 'Red', score: 3 },
+		{ team: 'Blue', score: 1 },
+	],
+};
+
+/** Strips the parts of events that aren't worth comparing. */
+const summarize = (events: MonitorEvent[]): object[] => events.map(event => {
+	const { server, time, ...rest } = event;
+	return 'result' in rest ? { type: rest.type } : rest;
+});
+
+describe('diffServerInfo', () => {
+	const server: Server = { address: '127.0.0.1', port: 2302, game: null };
+
+	it('finds nothing between identical snapshots', () => {
+		assert.deepEqual(diffServerInfo(server, INFO, { ...INFO }), []);
+	});
+
+	it('reports setting, player and score changes', () => {
+		const after: ServerInfo = {
+			...INFO,
+			hostname: 'Renamed',
+			mapname: 'sidewinder',
+			players: [
+				{ playername: 'Mimickal', score: 5, team: 0 },
+				{ playername: 'Newcomer', score: 0, team: 1 },
+			],
+			teams: [
+				{ team: 'Red', score: 5 },
+				{ team: 'Blue', score: 1 },
+			],
+		};
+		assert.deepEqual(summarize(diffServerInfo(server, INFO, after)), [
+			{ type: 'hostname_changed', from: 'Mock Server', to: 'Renamed' },
+			{ type: 'map_changed', from: 'bloodgulch', to: 'sidewinder' },
+			{ type: 'player_joined', player: 'Newcomer', team: 1 },
+			{ type: 'player_left', player: 'Chaosvex', team: 1 },
+			{ type: 'score_changed', team: 0, from: 3, to: 5 },
+			{ type: 'score_changed', player: 'Mimickal', from: 3, to: 5 },
+		]);
+	});
+});
+
+describe('ServerMonitor', () => {
+	const mock = new MockGameServer({ info: INFO });
+	let address: ServerAddress;
+	let monitor: ServerMonitor;
+
+	before(async () => {
+		address = await mock.listen();
+		monitor = new ServerMonitor([address], { endDelay: 50, timeout: 100 });
+	});
+	after(async () => {
+		monitor.stop();
+		await mock.close();
+	});
+
+	it('records the first poll without emitting anything', async () => {
+		assert.deepEqual(await monitor.poll(), []);
+	});
+
+	it('emits what changed since the last poll', async () => {
+		const emitted: MonitorEvent[] = [];
+		const joined: MonitorEvent[] = [];
+		monitor.on('change', event => emitted.push(event));
+		monitor.once('player_joined', event => joined.push(event));
+
+		mock.opts.info = {
+			...INFO,
+			mapname: 'sidewinder',
+			players: [...INFO.players!, { playername: 'Newcomer', score: 0, team: 0 }],
+		};
+		const events = await monitor.poll();
+		assert.deepEqual(summarize(events), [
+			{ type: 'map_changed', from: 'bloodgulch', to: 'sidewinder' },
+			{ type: 'player_joined', player: 'Newcomer', team: 0 },
+		]);
+		assert.deepEqual(emitted, events);
+		assert.deepEqual(joined, [events[1]]);
+		monitor.removeAllListeners('change');
+	});
+
+	it('emits when the server goes offline and comes back', async () => {
+		mock.opts.drop = 1;
+		try {
+			assert.deepEqual(summarize(await monitor.poll()), [{ type: 'server_offline' }]);
+			assert.deepEqual(await monitor.poll(), []);
+		} finally {
+			mock.opts.drop = 0;
+		}
+
+		// Diffing against how the server looked before it went away would be
+		// misleading, so it only comes back online.
+		mock.opts.info = INFO;
+		assert.deepEqual(summarize(await monitor.poll()), [{ type: 'server_online' }]);
+	});
+
+	it('polls on its own once started', async () => {
+		const polling = new ServerMonitor([address], { interval: 20, endDelay: 50 });
+		try {
+			let polls = 0;
+			await new Promise<void>(resolve => polling.on('poll', results => {
+				assert.equal(results.length, 1);
+				if (++polls === 2) resolve();
+			}).start());
+			assert.equal(polling.isRunning, true);
+		} finally {
+			polling.stop();
+		}
+		assert.equal(polling.isRunning, false);
+	});
+
+	it('keeps polling through failures, even with no error listener', async () => {
+		const failing = new ServerMonitor([address], { interval: 20 });
+		try {
+			let polls = 0;
+			await new Promise<void>(resolve => {
+				failing.poll = async () => {
+					if (++polls === 3) resolve();
+					throw new Error('Master server is down');
+				};
+				failing.start();
+			});
+		} finally {
+			failing.stop();
+		}
+	});
+});
@@ -0,0 +1,120 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import { QueryStatus, isResponse, parseServerResult, queryServerInfo } from '../src/handler';
+import { MockGameServer } from '../src/mock';
+import { ServerAddress, UDPClient } from '../src/network';
+import { ServerInfo, parseServerInfo } from '../src/response';
+
+const INFO_QUERY = '\\';
+
+const INFO: ServerInfo = {
+	hostname: 'Mock Server',
+	gamever: '01.00.10.0621',
+	mapname: 'bloodgulch',
+	numplayers: 2,
+	maxplayers: 16,
+	players: [
+		{ playername: 'Mimickal', score: 12 },
+		{ playername: 'Chaosvex', score: 8 },
+	],
+};
+
+describe('UDPClient.readAll', () => {
+	const server = new MockGameServer({ info: INFO, packets: 3 });
+	let address: ServerAddress;
+
+	before(async () => {
+		address = await server.listen();
+	});
+	after(async () => {
+		await server.close();
+	});
+
+	const query = async (endDelay: number): Promise<string | null> => {
+		const client = new UDPClient();
+		try {
+			await client.write(address.address, address.port, INFO_QUERY);
+			const responses = await client.readAll(endDelay);
+			return responses && responses[0].data.toString();
+		} finally {
+			client.close();
+		}
+	};
+
+	it('waits for packets that arrive within the end delay', async () => {
+		server.opts.packetDelay = 20;
+		const data = await query(200);
+		assert.ok(data);
+		assert.deepEqual(parseServerInfo(data, { strict: true }).players, INFO.players);
+	});
+
+	it('stops at the end delay, even if more packets are coming', async () => {
+		server.opts.packetDelay = 300;
+		const data = await query(100);
+		assert.ok(data);
+		assert.ok(!data.includes('\\final\\'));
+		assert.equal(parseServerInfo(data).hostname, INFO.hostname);
+	});
+
+	it('resolves with null if nothing arrives', async () => {
+		server.opts.packetDelay = 0;
+		server.opts.delay = 200;
+		try {
+			assert.equal(await query(50), null);
+		} finally {
+			server.opts.delay = 0;
+		}
+	});
+});
+
+describe('queryServerInfo', () => {
+	const server = new MockGameServer({ info: INFO, packets: 3, packetDelay: 10 });
+	let address: ServerAddress;
+
+	before(async () => {
+		address = await server.listen();
+	});
+	after(async () => {
+		await server.close();
+	});
+
+	const queryMock = async (): Promise<ReturnType<typeof parseServerResult>> => {
+		const [result] = await queryServerInfo([{ ...address, game: null }], { timeout: 500, endDelay: 1000 });
+		return parseServerResult(result, { strict: true });
+	};
+
+	it('reassembles packets that arrive out of order and twice', async () => {
+		server.opts.reverse = true;
+		server.opts.duplicate = true;
+		try {
+			const start = Date.now();
+			const result = await queryMock();
+			assert.ok(isResponse(result));
+			assert.deepEqual(result.data.players, INFO.players);
+			// Complete responses don't wait out the end delay.
+			assert.ok(Date.now() - start < 1000);
+		} finally {
+			server.opts.reverse = false;
+			server.opts.duplicate = false;
+		}
+	});
+
+	it('times out when the server never answers', async () => {
+		server.opts.drop = 1;
+		try {
+			const result = await queryMock();
+			assert.equal(result.status, QueryStatus.TimedOut);
+		} finally {
+			server.opts.drop = 0;
+		}
+	});
+});
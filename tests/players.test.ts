@@ -0,0 +1,122 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import { HaloQuery } from '../src/client';
+import { ParsedServerResult, QueryStatus } from '../src/handler';
+import { MockGameServer } from '../src/mock';
+import { ServerAddress } from '../src/network';
+import { findPlayers, listPlayers, normalizePlayerName } from '../src/players';
+import { ServerInfo } from '../src/response';
+
+const RESULTS: ParsedServerResult[] = [
+	{
+		address: '10.0.0.1', port: 2302, game: 'halom',
+		status: QueryStatus.Responded, attempts: 1, ping: 10,
+		data: {
+			hostname: 'First',
+			players: [
+				{ playername: '[TAG]Mimickal', score: 3, team: 0 },
+				null as unknown as Record<string, null>,
+				{ playername: 'Chaosvex', score: 1, team: 1 },
+			],
+		},
+	},
+	{
+		address: '10.0.0.2', port: 2302, game: 'halom',
+		status: QueryStatus.TimedOut, attempts: 1, data: null, error: 'No response',
+	},
+	{
+		address: '10.0.0.3', port: 2302, game: null,
+		status: QueryStatus.Responded, attempts: 1, ping: 20,
+		data: {
+			hostname: 'Second',
+			players: [
+				{ playername: '^1Mimickal', score: 7 },
+				{ playername: 'Mimickle', score: 0 },
+				{ playername: 'Mimickal2', score: 0 },
+			],
+		},
+	},
+];
+
+const names = (players: { name: string }[]): string[] => players.map(player => player.name);
+
+describe('normalizePlayerName', () => {
+	it('strips color codes, clan tags, padding and case', () => {
+		assert.equal(normalizePlayerName('^1Mimi^2ckal'), 'mimickal');
+		assert.equal(normalizePlayerName('[TAG] Mimickal'), 'mimickal');
+		assert.equal(normalizePlayerName('Mimickal<TAG>'), 'mimickal');
+		assert.equal(normalizePlayerName('TAG|Mimickal'), 'mimickal');
+		assert.equal(normalizePlayerName('\x01MIMICKAL\x7F'), 'mimickal');
+	});
+
+	it('leaves names that are nothing but a tag alone', () => {
+		assert.equal(normalizePlayerName('[TAG]'), '[tag]');
+	});
+});
+
+describe('listPlayers', () => {
+	it('lists players on responding servers, skipping empty slots', () => {
+		const players = listPlayers(RESULTS);
+		assert.deepEqual(names(players), [
+			'[TAG]Mimickal', 'Chaosvex', '^1Mimickal', 'Mimickle', 'Mimickal2',
+		]);
+		assert.deepEqual(players[0], {
+			name: '[TAG]Mimickal',
+			score: 3,
+			team: 0,
+			ping: null,
+			server: { address: '10.0.0.1', port: 2302, game: 'halom', hostname: 'First' },
+		});
+	});
+});
+
+describe('findPlayers', () => {
+	it('matches exactly, ignoring only color codes', () => {
+		assert.deepEqual(names(findPlayers(RESULTS, 'Mimickal', { match: 'exact' })), ['^1Mimickal']);
+	});
+
+	it('ignores case and clan tags by default', () => {
+		assert.deepEqual(names(findPlayers(RESULTS, 'mimickal')), ['[TAG]Mimickal', '^1Mimickal']);
+	});
+
+	it('allows a typo or a longer name when fuzzy, closest first', () => {
+		const matches = findPlayers(RESULTS, 'Mimickal', { match: 'fuzzy' });
+		assert.deepEqual(names(matches), ['[TAG]Mimickal', '^1Mimickal', 'Mimickal2', 'Mimickle']);
+		assert.deepEqual(matches.map(match => match.distance), [0, 0, 1, 2]);
+		assert.deepEqual(findPlayers(RESULTS, 'Chaos', { match: 'fuzzy' }).map(match => match.distance), [3]);
+		assert.deepEqual(findPlayers(RESULTS, 'Nobody', { match: 'fuzzy' }), []);
+	});
+});
+
+describe('HaloQuery.findPlayer', () => {
+	const info: ServerInfo = {
+		hostname: 'Mock Server',
+		gamever: '01.00.10.0621',
+		players: [{ playername: 'Mimickal', score: 12 }],
+	};
+	const mock = new MockGameServer({ info });
+	let server: ServerAddress;
+
+	before(async () => {
+		server = await mock.listen();
+	});
+	after(async () => {
+		await mock.close();
+	});
+
+	it('finds players on the queried servers', async () => {
+		const client = new HaloQuery({ endDelay: 50 });
+		const [match] = await client.findPlayer([server], 'MIMICKAL');
+		assert.equal(match.name, 'Mimickal');
+		assert.deepEqual(match.server, { ...server, game: null, hostname: 'Mock Server' });
+	});
+});
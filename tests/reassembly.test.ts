@@ -0,0 +1,87 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+
+import { parseFragment, reassemblePackets } from '../src/reassembly';
+
+const PACKETS = [
+	'\\hostname\\A\\gamever\\1\\queryid\\5.1',
+	'\\mapname\\bloodgulch\\queryid\\5.2',
+	'\\numplayers\\0\\final\\\\queryid\\5.3',
+];
+const WHOLE = '\\hostname\\A\\gamever\\1\\mapname\\bloodgulch\\numplayers\\0\\final\\\\queryid\\5.3';
+
+describe('parseFragment', () => {
+	it('reads the markers', () => {
+		const fragment = parseFragment(PACKETS[2]);
+		assert.equal(fragment?.queryId, 5);
+		assert.equal(fragment?.index, 3);
+		assert.equal(fragment?.final, true);
+		assert.equal(fragment?.body.toString(), '\\numplayers\\0');
+	});
+
+	it('accepts the final marker after the query ID', () => {
+		assert.equal(parseFragment('\\a\\b\\queryid\\1.1\\final\\')?.final, true);
+	});
+
+	it('ignores packets without a query ID', () => {
+		assert.equal(parseFragment('\\a\\b\\final\\'), null);
+	});
+});
+
+describe('reassemblePackets', () => {
+	it('joins packets in order', () => {
+		const response = reassemblePackets(PACKETS);
+		assert.equal(response.data.toString(), WHOLE);
+		assert.equal(response.queryId, 5);
+		assert.equal(response.complete, true);
+	});
+
+	it('sorts out-of-order packets and drops duplicates', () => {
+		const response = reassemblePackets([PACKETS[2], PACKETS[0], PACKETS[2], PACKETS[1], PACKETS[0]]);
+		assert.equal(response.data.toString(), WHOLE);
+		assert.equal(response.duplicates, 2);
+		assert.equal(response.complete, true);
+	});
+
+	it('reports missing packets, and leaves out the final marker', () => {
+		const response = reassemblePackets([PACKETS[0], PACKETS[2]]);
+		assert.equal(response.complete, false);
+		assert.deepEqual(response.missing, [2]);
+		assert.equal(response.data.toString(), '\\hostname\\A\\gamever\\1\\numplayers\\0\\queryid\\5.3');
+	});
+
+	it('is incomplete without the final packet', () => {
+		assert.equal(reassemblePackets(PACKETS.slice(0, 2)).complete, false);
+	});
+
+	it('prefers the latest complete response', () => {
+		const stale = '\\hostname\\Old\\gamever\\1\\final\\\\queryid\\4.1';
+		assert.equal(reassemblePackets([stale, ...PACKETS]).queryId, 5);
+		assert.equal(reassemblePackets([stale, PACKETS[0]]).queryId, 4);
+	});
+
+	it('joins unmarked packets in arrival order', () => {
+		const response = reassemblePackets(['\\hostname\\A', '\\gamever\\1\\final\\']);
+		assert.equal(response.data.toString(), '\\hostname\\A\\gamever\\1\\final\\');
+		assert.equal(response.queryId, null);
+		assert.equal(response.complete, true);
+	});
+
+	it('keeps characters split across packets intact', () => {
+		const body = Buffer.from('\\hostname\\Café ☃\\gamever\\1');
+		const cut = body.indexOf(Buffer.from('☃')) + 1;
+		const response = reassemblePackets([
+			Buffer.concat([body.subarray(cut), Buffer.from('\\final\\\\queryid\\1.2')]),
+			Buffer.concat([body.subarray(0, cut), Buffer.from('\\queryid\\1.1')]),
+		]);
+		assert.equal(response.data.toString(), '\\hostname\\Café ☃\\gamever\\1\\final\\\\queryid\\1.2');
+	});
+});
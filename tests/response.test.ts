@@ -0,0 +1,119 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+	ServerInfo,
+	ServerInfoParseError,
+	encodeGameFlags,
+	encodePlayerFlags,
+	encodeServerInfo,
+	encodeVehicleFlags,
+	parseServerInfo,
+} from '../src/response';
+
+const RESPONSE =
+	'\\hostname\\Back\\slash\\gamever\\01.00.10.0621\\mapname\\bloodgulch' +
+	'\\numplayers\\2\\maxplayers\\16\\player_flags\\1103291394,2\\game_flags\\26' +
+	'\\playername_0\\Mimickal\\score_0\\12\\team_0\\0' +
+	'\\playername_1\\Chaosvex\\score_1\\8\\team_1\\1' +
+	'\\team_t0\\Red\\score_t0\\12\\team_t1\\Blue\\score_t1\\8' +
+	'\\final\\\\queryid\\1.1';
+
+describe('parseServerInfo', () => {
+	it('keeps backslashes in the hostname', () => {
+		assert.equal(parseServerInfo(RESPONSE).hostname, 'Back\\slash');
+	});
+
+	it('parses numbers, players and teams', () => {
+		const info = parseServerInfo(RESPONSE);
+		assert.equal(info.numplayers, 2);
+		assert.equal(info.mapname, 'bloodgulch');
+		assert.deepEqual(info.players, [
+			{ playername: 'Mimickal', score: 12, team: 0 },
+			{ playername: 'Chaosvex', score: 8, team: 1 },
+		]);
+		assert.deepEqual(info.teams, [
+			{ team: 'Red', score: 12 },
+			{ team: 'Blue', score: 8 },
+		]);
+	});
+
+	it('decodes and labels flags', () => {
+		const info = parseServerInfo(RESPONSE);
+		assert.equal(info.player_flags, 1103291394);
+		assert.equal(info.vehicle_flags, 2);
+		assert.equal(info.player_flags_decoded?.weapon_set, 5);
+		assert.equal(info.player_flags_labels?.weapon_set, 'No sniping');
+		assert.deepEqual(info.game_flags_decoded, {
+			game_type: 2, death_bonus: 3, kill_penalty: 0, kill_in_order: 0,
+		});
+		assert.equal(info.game_flags_labels?.game_type, 'Slayer');
+	});
+
+	it('makes the best of a malformed response by default', () => {
+		const info = parseServerInfo('\\hostname\\A\\gamever\\1\\x\\1\\x\\2');
+		assert.equal(info.x, 2);
+	});
+
+	describe('in strict mode', () => {
+		const reasonFor = (data: string): string | undefined => {
+			try {
+				parseServerInfo(data, { strict: true });
+			} catch (err) {
+				assert.ok(err instanceof ServerInfoParseError);
+				return err.reason;
+			}
+			return undefined;
+		};
+
+		it('accepts a clean response', () => {
+			assert.equal(reasonFor(RESPONSE), undefined);
+		});
+
+		it('rejects bad responses with a reason', () => {
+			assert.equal(reasonFor('\\hostname\\A\\final\\'), 'missing_gamever');
+			assert.equal(reasonFor('\\name\\A\\gamever\\1\\final\\'), 'malformed');
+			assert.equal(reasonFor('\\hostname\\A\\gamever\\1\\x\\final\\'), 'malformed');
+			assert.equal(reasonFor('\\hostname\\A\\gamever\\1\\x\\1'), 'incomplete');
+			assert.equal(reasonFor('\\hostname\\A\\gamever\\1\\x\\1\\x\\2\\final\\'), 'duplicate_key');
+			assert.equal(reasonFor('\\hostname\\A\\gamever\\1\\player_flags\\12\\final\\'), 'invalid_flags');
+			assert.equal(reasonFor('\\hostname\\A\\gamever\\1\\game_flags\\7\\final\\'), 'invalid_flags');
+		});
+	});
+});
+
+describe('encodeServerInfo', () => {
+	it('round-trips through the parser', () => {
+		const info = parseServerInfo(RESPONSE);
+		assert.deepEqual(parseServerInfo(encodeServerInfo(info)), info);
+	});
+
+	it('writes missing vehicle flags as 0', () => {
+		const info: ServerInfo = { hostname: 'A', gamever: '1', player_flags: 1234, final: null };
+		const encoded = encodeServerInfo(info);
+		assert.equal(encoded, '\\hostname\\A\\gamever\\1\\player_flags\\1234,0\\final\\');
+		assert.equal(parseServerInfo(encoded, { strict: true }).vehicle_flags, 0);
+	});
+});
+
+describe('flag encoders', () => {
+	it('round-trip decoded flags', () => {
+		const info = parseServerInfo(RESPONSE);
+		// The top bit of player_flags isn't part of any field.
+		assert.equal(encodePlayerFlags(info.player_flags_decoded!), 1103291394 & 0x3fffffff);
+		assert.equal(encodeVehicleFlags(info.vehicle_flags_decoded!), 2);
+		assert.equal(encodeGameFlags(info.game_flags_decoded!), 26);
+	});
+
+	it('reject unrecognized game types', () => {
+		assert.throws(() => encodeGameFlags({ game_type: 6 }), /Unrecognized gametype/);
+	});
+});
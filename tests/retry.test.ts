@@ -0,0 +1,128 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import { getMasterServerList } from '../src/gamespy';
+import { MockMasterServer } from '../src/mock';
+import { ServerAddress } from '../src/network';
+import {
+	DEFAULT_RETRY_POLICY,
+	makeRetryPolicy,
+	retryDelay,
+	sleep,
+	withRetry,
+} from '../src/retry';
+
+describe('makeRetryPolicy', () => {
+	it('fills in missing fields with the defaults', () => {
+		assert.deepEqual(makeRetryPolicy(), DEFAULT_RETRY_POLICY);
+		assert.deepEqual(makeRetryPolicy({ attempts: 3, backoff: undefined }), {
+			...DEFAULT_RETRY_POLICY,
+			attempts: 3,
+		});
+	});
+});
+
+describe('retryDelay', () => {
+	it('backs off exponentially', () => {
+		const policy = makeRetryPolicy({ backoff: 100, factor: 3, jitter: 0 });
+		assert.deepEqual([1, 2, 3].map(retry => retryDelay(policy, retry)), [100, 300, 900]);
+	});
+
+	it('stays within the jitter', () => {
+		const policy = makeRetryPolicy({ backoff: 100, jitter: 0.2 });
+		for (let i = 0; i < 50; i++) {
+			const delay = retryDelay(policy, 1);
+			assert.ok(delay >= 80 && delay <= 120, `${delay} is out of range`);
+		}
+	});
+});
+
+describe('sleep', () => {
+	it('returns as soon as the signal aborts', async () => {
+		const abort = new AbortController();
+		const start = Date.now();
+		setTimeout(() => abort.abort(), 20);
+		await sleep(5000, abort.signal);
+		assert.ok(Date.now() - start < 1000);
+		await sleep(5000, abort.signal);
+		assert.ok(Date.now() - start < 1000);
+	});
+});
+
+describe('withRetry', () => {
+	const policy = makeRetryPolicy({ attempts: 3, backoff: 1 });
+
+	it('retries until the function succeeds', async () => {
+		const attempts: number[] = [];
+		const result = await withRetry(policy, async (attempt) => {
+			attempts.push(attempt);
+			if (attempt < 2) throw new Error('Nope');
+			return 'done';
+		});
+		assert.equal(result, 'done');
+		assert.deepEqual(attempts, [1, 2]);
+	});
+
+	it('throws the last error once out of attempts', async () => {
+		let calls = 0;
+		await assert.rejects(withRetry(policy, async (attempt) => {
+			calls++;
+			throw new Error(`Attempt ${attempt}`);
+		}), /Attempt 3/);
+		assert.equal(calls, 3);
+	});
+
+	it("doesn't retry errors it's told not to", async () => {
+		let calls = 0;
+		await assert.rejects(withRetry(policy, async () => {
+			calls++;
+			throw new TypeError('Fatal');
+		}, err => !(err instanceof TypeError)), /Fatal/);
+		assert.equal(calls, 1);
+	});
+});
+
+describe('getMasterServerList retries', () => {
+	const master = new MockMasterServer({ servers: [{ address: '10.0.0.1', port: 2302 }] });
+	let address: ServerAddress;
+
+	before(async () => {
+		address = await master.listen();
+	});
+	after(async () => {
+		await master.close();
+	});
+
+	it('retries responses that fail to decrypt', async () => {
+		master.opts.truncate = 10;
+		try {
+			const before = master.requests.length;
+			await assert.rejects(getMasterServerList('halom', {
+				host: address.address,
+				port: address.port,
+				timeout: 500,
+				retry: { attempts: 2, backoff: 10 },
+			}));
+			assert.equal(master.requests.length - before, 2);
+		} finally {
+			master.opts.truncate = undefined;
+		}
+	});
+
+	it('returns the list once a fetch succeeds', async () => {
+		const servers = await getMasterServerList('halom', {
+			host: address.address,
+			port: address.port,
+			retry: { attempts: 2, backoff: 10 },
+		});
+		assert.deepEqual(servers, [{ address: '10.0.0.1', port: 2302 }]);
+	});
+});
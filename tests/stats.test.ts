@@ -0,0 +1,87 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+
+import { ParsedServerResult, QueryStatus } from '../src/handler';
+import { ServerInfo } from '../src/response';
+import { computeStats, computeStatsReport, isStockMap } from '../src/stats';
+
+const response = (game: string | null, data: ServerInfo): ParsedServerResult => ({
+	address: '10.0.0.1', port: 2302, game,
+	status: QueryStatus.Responded, attempts: 1, ping: 10,
+	data,
+});
+
+const RESULTS: ParsedServerResult[] = [
+	response('halom', { mapname: 'bloodgulch', gametype: 'CTF', gamever: '1.10', numplayers: 8 }),
+	response('halom', { mapname: 'BloodGulch', gametype: 'Slayer', gamever: '1.10', numplayers: 2, password: 1 }),
+	response('halor', { mapname: 'tsce_multiplayerv1', gametype: 'CTF', gamever: '1.09', numplayers: 4 }),
+	// Player counts fall back to the player list.
+	response('halor', { mapname: 'tsce_multiplayerv1', gamever: '1.09', players: [{ playername: 'a' }] }),
+	{
+		address: '10.0.0.5', port: 2302, game: 'halom',
+		status: QueryStatus.TimedOut, attempts: 1, data: null, error: 'No response',
+	},
+];
+
+describe('isStockMap', () => {
+	it('knows the stock maps, in any case', () => {
+		assert.equal(isStockMap('Sidewinder'), true);
+		assert.equal(isStockMap('tsce_multiplayerv1'), false);
+		assert.equal(isStockMap(undefined), false);
+	});
+});
+
+describe('computeStats', () => {
+	const stats = computeStats(RESULTS);
+
+	it('counts servers and players', () => {
+		assert.equal(stats.servers, 5);
+		assert.equal(stats.responding, 4);
+		assert.equal(stats.players, 15);
+		assert.equal(stats.passworded, 1);
+		assert.equal(stats.passwordedPlayers, 2);
+	});
+
+	it('breaks down by map, busiest first, ignoring case', () => {
+		assert.deepEqual(stats.byMap, [
+			{ name: 'bloodgulch', servers: 2, players: 10 },
+			{ name: 'tsce_multiplayerv1', servers: 2, players: 5 },
+		]);
+		assert.deepEqual(stats.customMaps, [{ name: 'tsce_multiplayerv1', servers: 2, players: 5 }]);
+	});
+
+	it('breaks down by gametype and version', () => {
+		assert.deepEqual(stats.byGametype, [
+			{ name: 'CTF', servers: 2, players: 12 },
+			{ name: 'Slayer', servers: 1, players: 2 },
+			{ name: '', servers: 1, players: 1 },
+		]);
+		assert.deepEqual(stats.byVersion.map(bucket => bucket.name), ['1.10', '1.09']);
+	});
+
+	it('handles no servers at all', () => {
+		assert.deepEqual(computeStats([]), {
+			servers: 0, responding: 0, players: 0, passworded: 0, passwordedPlayers: 0,
+			byMap: [], byGametype: [], byVersion: [], customMaps: [],
+		});
+	});
+});
+
+describe('computeStatsReport', () => {
+	it('reports each master list, in the order first seen', () => {
+		const report = computeStatsReport(RESULTS);
+		assert.deepEqual(report.total, computeStats(RESULTS));
+		assert.deepEqual(report.games.map(game => [game.game, game.servers, game.players]), [
+			['halom', 3, 10],
+			['halor', 2, 5],
+		]);
+	});
+});
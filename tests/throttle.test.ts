@@ -0,0 +1,123 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import { QueryStatus, Server, queryServerInfo } from '../src/handler';
+import { MockGameServer } from '../src/mock';
+import { sleep } from '../src/retry';
+import { Throttle } from '../src/throttle';
+
+describe('Throttle', () => {
+	it('grants everything at once by default', async () => {
+		const throttle = new Throttle();
+		await Promise.all(['a', 'b', 'c'].map(key => throttle.acquire(key)));
+	});
+
+	it('holds slots past the in-flight limit until one is released', async () => {
+		const throttle = new Throttle({ maxInFlight: 2 });
+		const granted: string[] = [];
+		const acquire = (key: string): Promise<void> => throttle.acquire(key).then(() => {
+			granted.push(key);
+		});
+
+		const all = Promise.all(['a', 'b', 'c', 'd'].map(acquire));
+		await sleep(10);
+		assert.deepEqual(granted, ['a', 'b']);
+
+		throttle.release('b');
+		await sleep(10);
+		assert.deepEqual(granted, ['a', 'b', 'c']);
+
+		throttle.release('nonexistent');
+		await sleep(10);
+		assert.deepEqual(granted, ['a', 'b', 'c']);
+
+		throttle.release('a');
+		await all;
+		assert.deepEqual(granted, ['a', 'b', 'c', 'd']);
+	});
+
+	it('spaces sends out to the rate limit', async () => {
+		const throttle = new Throttle({ packetsPerSecond: 20 });
+		const start = performance.now();
+		await Promise.all(['a', 'b', 'c'].map(key => throttle.acquire(key)));
+		// The first is sent right away, then one every 50ms.
+		assert.ok(performance.now() - start >= 95);
+	});
+
+	it('stops waiting for a slot or a send time once the signal aborts', async () => {
+		const throttle = new Throttle({ maxInFlight: 1, packetsPerSecond: 0.1 });
+		await throttle.acquire('a');
+
+		const abort = new AbortController();
+		const start = performance.now();
+		setTimeout(() => abort.abort(), 20);
+		await throttle.acquire('b', abort.signal);
+		assert.ok(performance.now() - start < 1000);
+
+		// The aborted caller gave up its place in line.
+		throttle.release('b');
+		throttle.release('a');
+		const sending = new AbortController();
+		setTimeout(() => sending.abort(), 20);
+		await throttle.acquire('c', sending.signal);
+		assert.ok(performance.now() - start < 1000);
+		throttle.release('c');
+		await throttle.idle();
+	});
+
+	it('resolves idle once every slot is released', async () => {
+		const throttle = new Throttle();
+		await throttle.idle();
+
+		await throttle.acquire('a');
+		let idle = false;
+		const waiting = throttle.idle().then(() => idle = true);
+		await sleep(10);
+		assert.equal(idle, false);
+
+		throttle.release('a');
+		await waiting;
+		assert.equal(idle, true);
+	});
+});
+
+describe('throttled queries', () => {
+	const mocks = [1, 2, 3].map(i => new MockGameServer({
+		info: { hostname: `Mock ${i}`, gamever: '01.00.10.0621' },
+	}));
+	const servers: Server[] = [];
+
+	before(async () => {
+		for (const mock of mocks) {
+			servers.push({ ...await mock.listen(), game: null });
+		}
+	});
+	after(async () => {
+		await Promise.all(mocks.map(mock => mock.close()));
+	});
+
+	it('still reach every server', async () => {
+		const start = performance.now();
+		const results = await queryServerInfo(servers, {
+			endDelay: 100,
+			maxInFlight: 1,
+			packetsPerSecond: 20,
+		});
+		assert.deepEqual(results.map(result => result.status), Array(3).fill(QueryStatus.Responded));
+		assert.ok(performance.now() - start >= 95);
+	});
+
+	it('still reach every server in batches', async () => {
+		const results = await queryServerInfo(servers, { endDelay: 100, batchSize: 2 });
+		assert.deepEqual(results.map(result => result.status), Array(3).fill(QueryStatus.Responded));
+		mocks.forEach(mock => assert.ok(mock.queries.length >= 2));
+	});
+});
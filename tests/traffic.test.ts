@@ -0,0 +1,107 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { promises as fs } from 'fs';
+import { describe, it } from 'node:test';
+import * as os from 'os';
+import * as path from 'path';
+
+import { HaloQuery } from '../src/client';
+import { ParsedServerResult, QueryStatus } from '../src/handler';
+import { MockGameServer, MockMasterServer } from '../src/mock';
+import { ServerInfo } from '../src/response';
+import {
+	TRAFFIC_CAPTURE_VERSION,
+	TrafficCapture,
+	TrafficRecorder,
+	TrafficReplay,
+	loadTrafficCapture,
+	saveTrafficCapture,
+} from '../src/traffic';
+
+const INFO: ServerInfo = {
+	hostname: 'Mock Server',
+	gamever: '01.00.10.0621',
+	mapname: 'bloodgulch',
+	numplayers: 1,
+	players: [{ playername: 'Mimickal', score: 12 }],
+};
+
+/** Pings differ between runs, so leave them out of comparisons. */
+const withoutPings = (results: ParsedServerResult[]): object[] => (
+	results.map(result => ({ ...result, ping: undefined }))
+);
+
+describe('traffic recording and replay', () => {
+	it('replays a recorded query without the network', async () => {
+		const game = new MockGameServer({ info: INFO, packets: 2, packetDelay: 10 });
+		const master = new MockMasterServer({ servers: [await game.listen()] });
+		const masterAddress = await master.listen();
+
+		const recorder = new TrafficRecorder();
+		let recorded: ParsedServerResult[];
+		try {
+			recorded = await new HaloQuery({
+				masterHost: masterAddress.address,
+				masterPort: masterAddress.port,
+				endDelay: 100,
+				recordTraffic: recorder,
+			}).query(['halom']);
+		} finally {
+			await Promise.all([game.close(), master.close()]);
+		}
+
+		assert.equal(recorded.length, 1);
+		assert.equal(recorded[0].status, QueryStatus.Responded);
+		assert.equal(recorder.capture.master.length, 1);
+		assert.deepEqual(recorder.capture.udp.map(record => record.direction), ['sent', 'received', 'received']);
+
+		// Everything is closed now, so this can only come from the capture.
+		const replayed = await new HaloQuery({
+			masterHost: masterAddress.address,
+			masterPort: masterAddress.port,
+			endDelay: 100,
+			replayTraffic: new TrafficReplay(JSON.parse(JSON.stringify(recorder))),
+		}).query(['halom']);
+		assert.deepEqual(withoutPings(replayed), withoutPings(recorded));
+	});
+
+	it("treats servers the capture doesn't have as unresponsive", async () => {
+		const client = new HaloQuery({
+			endDelay: 50,
+			timeout: 50,
+			replayTraffic: new TrafficReplay({ version: TRAFFIC_CAPTURE_VERSION, master: [], udp: [] }),
+		});
+		const [result] = await client.query([{ address: '10.0.0.1', port: 2302 }]);
+		assert.equal(result.status, QueryStatus.TimedOut);
+		await assert.rejects(client.query(['halom']), /No master server response for halom/);
+	});
+
+	it('refuses captures in other formats', () => {
+		assert.throws(() => new TrafficReplay({ version: 999 } as TrafficCapture), /Unsupported/);
+	});
+
+	it('saves and loads captures', async () => {
+		const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'halo-query-'));
+		try {
+			const recorder = new TrafficRecorder();
+			recorder.recordMaster('halom', 'abcdef', Buffer.from('response'));
+			recorder.recordMaster('halor', 'abcdef', new Error('Timed out'));
+			recorder.recordDatagram('sent', '10.0.0.1', 2302, Buffer.from('\\'));
+
+			const file = path.join(dir, 'capture.json');
+			await saveTrafficCapture(file, recorder.capture);
+			const capture = await loadTrafficCapture(file);
+			assert.deepEqual(capture, recorder.capture);
+			assert.deepEqual(capture.master[1], { game: 'halor', validationKey: 'abcdef', error: 'Timed out' });
+		} finally {
+			await fs.rm(dir, { recursive: true });
+		}
+	});
+});
@@ -0,0 +1,117 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+
+import { MockGameServer } from '../src/mock';
+import { ServerAddress } from '../src/network';
+import { ServerInfo } from '../src/response';
+import { sleep } from '../src/retry';
+import { QueryAbortError, QueryTimeoutError, QueryTransport } from '../src/transport';
+
+const info = (hostname: string): ServerInfo => ({
+	hostname,
+	gamever: '01.00.10.0621',
+	mapname: 'bloodgulch',
+	numplayers: 0,
+});
+
+describe('QueryTransport', () => {
+	const red = new MockGameServer({ info: info('Red'), packets: 2 });
+	const blue = new MockGameServer({ info: info('Blue'), packets: 2, delay: 20 });
+	let redAddress: ServerAddress;
+	let blueAddress: ServerAddress;
+	let transport: QueryTransport;
+
+	before(async () => {
+		redAddress = await red.listen();
+		blueAddress = await blue.listen();
+	});
+	after(async () => {
+		await Promise.all([red.close(), blue.close()]);
+	});
+	beforeEach(() => {
+		transport = new QueryTransport();
+	});
+	afterEach(() => {
+		transport.close();
+	});
+
+	it('routes each response to the request for its server', async () => {
+		const [redResponse, blueResponse] = await Promise.all([
+			transport.request(redAddress, '\\', { endDelay: 1000 }),
+			transport.request(blueAddress, '\\', { endDelay: 1000 }),
+		]);
+		assert.deepEqual({ ...redResponse, packets: undefined, ping: undefined }, {
+			...redAddress, packets: undefined, ping: undefined,
+		});
+		assert.equal(redResponse.packets.length, 2);
+		assert.match(Buffer.concat(redResponse.packets).toString(), /hostname\\Red\\/);
+		assert.match(Buffer.concat(blueResponse.packets).toString(), /hostname\\Blue\\/);
+		assert.ok(blueResponse.ping >= 15);
+		assert.equal(transport.size, 0);
+	});
+
+	it('completes a response at the final packet, without waiting out the end delay', async () => {
+		const start = Date.now();
+		await transport.request(redAddress, '\\', { endDelay: 1000 });
+		assert.ok(Date.now() - start < 1000);
+	});
+
+	it('times out when the server never answers', async () => {
+		red.opts.drop = 1;
+		try {
+			await assert.rejects(
+				transport.request(redAddress, '\\', { timeout: 50 }),
+				QueryTimeoutError,
+			);
+			assert.equal(transport.size, 0);
+		} finally {
+			red.opts.drop = 0;
+		}
+	});
+
+	it('rejects aborted requests that have nothing yet', async () => {
+		const abort = new AbortController();
+		const request = transport.request(blueAddress, '\\', { signal: abort.signal });
+		abort.abort();
+		await assert.rejects(request, QueryAbortError);
+
+		await assert.rejects(
+			transport.request(blueAddress, '\\', { signal: abort.signal }),
+			QueryAbortError,
+		);
+	});
+
+	it('resolves aborted requests with the packets they have', async () => {
+		red.opts.packetDelay = 200;
+		try {
+			const abort = new AbortController();
+			const request = transport.request(redAddress, '\\', { endDelay: 1000, signal: abort.signal });
+			setTimeout(() => abort.abort(), 100);
+			const response = await request;
+			assert.equal(response.packets.length, 1);
+		} finally {
+			red.opts.packetDelay = 0;
+		}
+	});
+
+	it('rejects pending requests on close, and refuses new ones', async () => {
+		blue.opts.delay = 200;
+		try {
+			const request = transport.request(blueAddress);
+			await sleep(50);
+			transport.close();
+			await assert.rejects(request, /closed/);
+			await assert.rejects(transport.request(blueAddress), /closed/);
+		} finally {
+			blue.opts.delay = 20;
+		}
+	});
+});
@@ -0,0 +1,331 @@
+/*******************************************************************************
+ * This file is part of halo-query, a Halo server query library for Node.js.
+ * Copyright (C) 2023 Mimickal (Mia Moretti).
+ *
+ * halo-query is free software under the GNU Lesser General Public License v3.0.
+ * See LICENSE.md or <https://www.gnu.org/licenses/lgpl-3.0.en.html>
+ * for more information.
+ ******************************************************************************/
+import assert from 'assert/strict';
+import { randomBytes } from 'crypto';
+import * as TCP from 'net';
+import { after, afterEach, before, describe, it } from 'node:test';
+
+import { ApiServer } from '../src/api';
+import { MockGameServer } from '../src/mock';
+import { ServerAddress } from '../src/network';
+import { ServerInfo } from '../src/response';
+import { addressKey } from '../src/transport';
+import { LIVE_UPDATES_PATH, LiveMessage, mergePatch } from '../src/websocket';
+
+const INFO: ServerInfo = {
+	hostname: 'Mock Server',
+	gamever: '01.00.10.0621',
+	mapname: 'bloodgulch',
+	numplayers: 1,
+	players: [{ playername: 'Mimickal', score: 0 }],
+};
+
+interface Frame {
+	opcode: number;
+	payload: Buffer;
+}
+
+/** Just enough of a WebSocket client to talk to the server. */
+class TestClient {
+	private buffer = Buffer.alloc(0);
+	private frames: Frame[] = [];
+	private waiters: ((frame: Frame | null) => void)[] = [];
+	private ended = false;
+
+	private constructor(readonly socket: TCP.Socket, rest: Buffer) {
+		socket.on('data', data => this.onData(data));
+		socket.on('close', () => {
+			this.ended = true;
+			this.waiters.forEach(resolve => resolve(null));
+			this.waiters = [];
+		});
+		this.onData(rest);
+	}
+
+	/** Connects and completes the handshake, rejecting with the status line if it fails. */
+	static async connect(server: ServerAddress, path = LIVE_UPDATES_PATH): Promise<TestClient> {
+		const socket = TCP.connect(server.port, server.address);
+		socket.write([
+			`GET ${path} HTTP/1.1`,
+			`Host: ${server.address}`,
+			'Upgrade: websocket',
+			'Connection: Upgrade',
+			`Sec-WebSocket-Key: ${randomBytes(16).toString('base64')}`,
+			'Sec-WebSocket-Version: 13',
+			'', '',
+		].join('\r\n'));
+
+		return new Promise((resolve, reject) => {
+			let data = Buffer.alloc(0);
+			const onData = (chunk: Buffer): void => {
+				data = Buffer.concat([data, chunk]);
+				const end = data.indexOf('\r\n\r\n');
+				if (end === -1) return;
+
+				socket.removeListener('data', onData);
+				const status = data.subarray(0, data.indexOf('\r\n')).toString();
+				if (status.includes(' 101 ')) {
+					resolve(new TestClient(socket, data.subarray(end + 4)));
+				} else {
+					socket.destroy();
+					reject(new Error(status));
+				}
+			};
+			socket.on('data', onData);
+			socket.once('error', reject);
+		});
+	}
+
+	/** Sends a frame, masked (as clients must) unless told otherwise. */
+	sendFrame(opcode: number, payload: Buffer, { mask = true, fin = true } = {}): void {
+		const header = [(fin ? 0x80 : 0) | opcode];
+		const maskBit = mask ? 0x80 : 0;
+		if (payload.length < 126) {
+			header.push(maskBit | payload.length);
+		} else {
+			header.push(maskBit | 126, payload.length >> 8, payload.length & 0xFF);
+		}
+
+		const key = randomBytes(4);
+		const body = mask ? payload.map((byte, i) => byte ^ key[i % 4]) : payload;
+		this.socket.write(Buffer.concat([Buffer.from(header), mask ? key : Buffer.alloc(0), body]));
+	}
+
+	send(message: unknown): void {
+		this.sendFrame(0x1, Buffer.from(typeof message === 'string' ? message : JSON.stringify(message)));
+	}
+
+	/** Resolves with the next frame, or `null` once the connection closes. */
+	async next(): Promise<Frame | null> {
+		if (this.frames.length > 0) return this.frames.shift()!;
+		if (this.ended) return null;
+		return new Promise(resolve => this.waiters.push(resolve));
+	}
+
+	/** Resolves with the next message. */
+	async message(): Promise<LiveMessage> {
+		const frame = await this.next();
+		assert.equal(frame?.opcode, 0x1);
+		return JSON.parse(frame.payload.toString());
+	}
+
+	/** Resolves with the close code the server sent. */
+	async closeCode(): Promise<number> {
+		const frame = await this.next();
+		assert.equal(frame?.opcode, 0x8);
+		return frame.payload.readUInt16BE(0);
+	}
+
+	close(): void {
+		this.socket.destroy();
+	}
+
+	private onData(data: Buffer): void {
+		this.buffer = Buffer.concat([this.buffer, data]);
+		for (;;) {
+			if (this.buffer.length < 2) return;
+			let length = this.buffer[1] & 0x7F;
+			let offset = 2;
+			if (length === 126) {
+				length = this.buffer.readUInt16BE(2);
+				offset = 4;
+			} else if (length === 127) {
+				length = Number(this.buffer.readBigUInt64BE(2));
+				offset = 10;
+			}
+			if (this.buffer.length < offset + length) return;
+
+			const frame = {
+				opcode: this.buffer[0] & 0x0F,
+				payload: this.buffer.subarray(offset, offset + length),
+			};
+			this.buffer = this.buffer.subarray(offset + length);
+
+			const waiter = this.waiters.shift();
+			if (waiter) {
+				waiter(frame);
+			} else {
+				this.frames.push(frame);
+			}
+		}
+	}
+}
+
+describe('mergePatch', () => {
+	it('is undefined for equal values', () => {
+		assert.equal(mergePatch({ a: 1, b: [1, 2] }, { a: 1, b: [1, 2] }), undefined);
+	});
+
+	it('includes changed and added keys, and nulls out removed ones', () => {
+		assert.deepEqual(
+			mergePatch({ a: 1, b: { c: 2, d: 3 }, e: 4 }, { a: 1, b: { c: 5, d: 3 }, f: 6 }),
+			{ b: { c: 5 }, f: 6, e: null },
+		);
+	});
+
+	it('replaces arrays wholesale', () => {
+		assert.deepEqual(mergePatch({ a: [1, 2] }, { a: [1] }), { a: [1] });
+	});
+});
+
+describe('LiveUpdateServer', () => {
+	const mock = new MockGameServer({ info: INFO });
+	let server: ServerAddress;
+	let key: string;
+	let api: ApiServer;
+	let address: ServerAddress;
+	const clients: TestClient[] = [];
+
+	const connect = async (): Promise<TestClient> => {
+		const client = await TestClient.connect(address);
+		clients.push(client);
+		return client;
+	};
+
+	before(async () => {
+		server = await mock.listen();
+		key = addressKey(server);
+		// Polls are run by hand, so they happen when the tests expect.
+		api = new ApiServer([server], { interval: 60000, endDelay: 50 });
+		address = await api.listen(0, '127.0.0.1');
+		await new Promise(resolve => api.monitor.once('poll', resolve));
+	});
+	afterEach(() => {
+		clients.forEach(client => client.close());
+		clients.length = 0;
+	});
+	after(async () => {
+		await api.close();
+		await mock.close();
+	});
+
+	it('only accepts connections on the live updates path', async () => {
+		await assert.rejects(TestClient.connect(address, '/nonsense'), /404/);
+	});
+
+	it('sends a snapshot on subscribing, then diffs as the server changes', async () => {
+		const client = await connect();
+		client.send({ type: 'subscribe', server: key });
+
+		const snapshot = await client.message();
+		assert.equal(snapshot.type, 'snapshot');
+		assert.ok('result' in snapshot && snapshot.result?.status === 'responded');
+		assert.equal(snapshot.result.data.hostname, INFO.hostname);
+
+		mock.opts.info = {
+			...INFO,
+			numplayers: 2,
+			players: [...INFO.players!, { playername: 'Chaosvex', score: 0 }],
+		};
+		try {
+			await api.monitor.poll();
+		} finally {
+			mock.opts.info = INFO;
+		}
+
+		const diff = await client.message();
+		assert.equal(diff.type, 'diff');
+		assert.ok('patch' in diff);
+		assert.deepEqual(diff.patch, {
+			data: {
+				numplayers: 2,
+				players: [{ playername: 'Mimickal', score: 0 }, { playername: 'Chaosvex', score: 0 }],
+			},
+		});
+		assert.deepEqual(diff.events.map(event => event.type), ['player_joined']);
+	});
+
+	it('stops sending once unsubscribed', async () => {
+		const client = await connect();
+		client.send({ type: 'subscribe', server: key });
+		await client.message();
+		client.send({ type: 'unsubscribe', server: key });
+
+		mock.opts.info = { ...INFO, mapname: 'sidewinder' };
+		try {
+			await api.monitor.poll();
+		} finally {
+			mock.opts.info = INFO;
+		}
+
+		// Anything sent after this would have been sent before the pong.
+		client.sendFrame(0x9, Buffer.from('still here?'));
+		assert.deepEqual(await client.next(), { opcode: 0xA, payload: Buffer.from('still here?') });
+	});
+
+	it('answers bad requests with an error', async () => {
+		const client = await connect();
+		client.send('not json');
+		assert.deepEqual(await client.message(), { type: 'error', error: 'Messages must be JSON' });
+		client.send({ type: 'subscribe', game: 'nonsense' });
+		assert.deepEqual(await client.message(), { type: 'error', error: 'Unknown game: nonsense' });
+		client.send({ type: 'dance' });
+		assert.deepEqual(await client.message(), { type: 'error', error: 'Unknown message type' });
+	});
+
+	it('puts fragmented messages back together', async () => {
+		const client = await connect();
+		const message = Buffer.from(JSON.stringify({ type: 'subscribe', server: key }));
+		client.sendFrame(0x1, message.subarray(0, 5), { fin: false });
+		client.sendFrame(0x0, message.subarray(5));
+		assert.equal((await client.message()).type, 'snapshot');
+	});
+
+	it('closes connections that claim huge frames, without waiting for them', async () => {
+		const client = await connect();
+		const header = Buffer.alloc(14);
+		header[0] = 0x81;
+		header[1] = 0x80 | 127;
+		header.writeBigUInt64BE(2n ** 62n, 2);
+		client.socket.write(header);
+		assert.equal(await client.closeCode(), 1009);
+	});
+
+	it('closes connections whose fragments add up to too much', async () => {
+		const client = await connect();
+		const chunk = Buffer.alloc(40 * 1024, 'a');
+		client.sendFrame(0x1, chunk, { fin: false });
+		client.sendFrame(0x0, chunk, { fin: false });
+		assert.equal(await client.closeCode(), 1009);
+	});
+
+	it('closes connections that send unmasked frames', async () => {
+		const client = await connect();
+		client.sendFrame(0x1, Buffer.from('{}'), { mask: false });
+		assert.equal(await client.closeCode(), 1002);
+	});
+});
+
+describe('LiveUpdateServer before the first poll', () => {
+	const mock = new MockGameServer({ info: INFO, delay: 100 });
+	let api: ApiServer;
+	let client: TestClient;
+
+	after(async () => {
+		client?.close();
+		await api.close();
+		await mock.close();
+	});
+
+	it('sends server subscribers the full state once the server shows up', async () => {
+		const server = await mock.listen();
+		api = new ApiServer([server], { interval: 60000, endDelay: 50 });
+		client = await TestClient.connect(await api.listen(0, '127.0.0.1'));
+
+		client.send({ type: 'subscribe', server: addressKey(server) });
+		assert.deepEqual(await client.message(), {
+			type: 'snapshot', updated: null, server: addressKey(server), result: null,
+		});
+
+		const snapshot = await client.message();
+		assert.equal(snapshot.type, 'snapshot');
+		assert.ok('result' in snapshot && snapshot.result?.status === 'responded');
+		assert.equal(snapshot.result.data.hostname, INFO.hostname);
+	});
+});